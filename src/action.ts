@@ -62,6 +62,30 @@ export const LegalActionsSchema = Schema.Struct({
   allInAmount: ChipsSchema,
 });
 
+// ---------------------------------------------------------------------------
+// BettingStructure
+// ---------------------------------------------------------------------------
+
+/**
+ * How large a bet or raise may be. Fixed-limit locks every bet and raise to
+ * the street's bet size (the minimum increment) and caps raises per street.
+ */
+export type BettingStructure = "NoLimit" | "PotLimit" | "FixedLimit";
+
+export interface BettingLimits {
+  readonly structure: BettingStructure;
+  /** Chips already in the middle: collected pots plus every outstanding bet. */
+  readonly potSize: Chips;
+  /** Fixed-limit only: the street's raise cap has been reached. */
+  readonly raiseCapped?: boolean;
+}
+
+/** No-limit betting: the only cap is the player's stack. */
+export const NO_LIMIT: BettingLimits = {
+  structure: "NoLimit",
+  potSize: makeChips(0),
+};
+
 // ---------------------------------------------------------------------------
 // computeLegalActions
 // ---------------------------------------------------------------------------
@@ -72,6 +96,7 @@ export function computeLegalActions(
   biggestBet: Chips,
   minRaiseIncrement: Chips,
   hasBetThisRound: boolean,
+  limits: BettingLimits = NO_LIMIT,
 ): LegalActions {
   const canFold = true;
   const canCheck = playerCurrentBet >= biggestBet;
@@ -82,27 +107,47 @@ export function computeLegalActions(
     ? Option.some(makeChips(callGap))
     : Option.none();
 
+  // The minimum bet or raise is always allowed, even into a tiny pot.
+  const minTotal = hasBetThisRound
+    ? chipsToNumber(biggestBet) + chipsToNumber(minRaiseIncrement)
+    : chipsToNumber(playerCurrentBet) + chipsToNumber(minRaiseIncrement);
+
+  // Largest total the player may have in front of them after acting.
+  // Pot-limit: call first, then raise by the size of the pot after the call.
+  // Fixed-limit: exactly one bet size, and nothing above a capped bet.
+  const stackTotal = chipsToNumber(playerChips) + chipsToNumber(playerCurrentBet);
+  const raiseCapped = limits.structure === "FixedLimit" && limits.raiseCapped === true;
+  const limitTotal = pipe(
+    Match.value(limits.structure),
+    Match.when("PotLimit", () =>
+      chipsToNumber(biggestBet) + chipsToNumber(limits.potSize) + Math.max(callGap, 0),
+    ),
+    Match.when("FixedLimit", () => minTotal),
+    Match.when("NoLimit", () => Infinity),
+    Match.exhaustive,
+  );
+  const capTotal = raiseCapped ? chipsToNumber(biggestBet) : Math.max(limitTotal, minTotal);
+
   let minBet: Option.Option<Chips> = Option.none();
   let maxBet: Option.Option<Chips> = Option.none();
   if (!hasBetThisRound) {
     if (chipsToNumber(playerChips) >= chipsToNumber(minRaiseIncrement)) {
       minBet = Option.some(minRaiseIncrement);
-      maxBet = Option.some(playerChips);
+      maxBet = Option.some(makeChips(Math.min(stackTotal, capTotal) - chipsToNumber(playerCurrentBet)));
     }
   }
 
   let minRaise: Option.Option<Chips> = Option.none();
   let maxRaise: Option.Option<Chips> = Option.none();
-  if (hasBetThisRound) {
-    const minRaiseTo = chipsToNumber(biggestBet) + chipsToNumber(minRaiseIncrement);
-    const maxRaiseTo = chipsToNumber(playerChips) + chipsToNumber(playerCurrentBet);
-    if (maxRaiseTo >= minRaiseTo) {
-      minRaise = Option.some(makeChips(minRaiseTo));
-      maxRaise = Option.some(makeChips(maxRaiseTo));
+  if (hasBetThisRound && !raiseCapped) {
+    if (stackTotal >= minTotal) {
+      minRaise = Option.some(makeChips(minTotal));
+      maxRaise = Option.some(makeChips(Math.min(stackTotal, capTotal)));
     }
   }
 
-  const canAllIn = chipsToNumber(playerChips) > 0;
+  // Under a limit, shoving is only legal when it fits inside the limit.
+  const canAllIn = chipsToNumber(playerChips) > 0 && stackTotal <= capTotal;
   const allInAmount = playerChips;
 
   return {
@@ -125,7 +170,15 @@ export function computeLegalActions(
 export function validateAction(
   action: Action,
   legal: LegalActions,
+  structure: BettingStructure = "NoLimit",
 ): Either.Either<Action, InvalidAction> {
+  const maximum = pipe(
+    Match.value(structure),
+    Match.when("PotLimit", () => "pot-limit maximum"),
+    Match.when("FixedLimit", () => "fixed-limit bet size"),
+    Match.when("NoLimit", () => "maximum"),
+    Match.exhaustive,
+  );
   return pipe(
     Match.value(action),
     Match.tag("Fold", (a) =>
@@ -174,7 +227,7 @@ export function validateAction(
         return Either.left(
           new InvalidAction({
             action: "Bet",
-            reason: `Bet of ${a.amount} exceeds the maximum of ${legal.maxBet.value}`,
+            reason: `Bet of ${a.amount} exceeds the ${maximum} of ${legal.maxBet.value}`,
           }),
         );
       }
@@ -185,7 +238,9 @@ export function validateAction(
         return Either.left(
           new InvalidAction({
             action: "Raise",
-            reason: "Cannot raise — no bet has been made to raise, or insufficient chips",
+            reason: structure === "FixedLimit"
+              ? "Cannot raise — no bet to raise, insufficient chips, or the raise cap has been reached"
+              : "Cannot raise — no bet has been made to raise, or insufficient chips",
           }),
         );
       }
@@ -201,22 +256,29 @@ export function validateAction(
         return Either.left(
           new InvalidAction({
             action: "Raise",
-            reason: `Raise to ${a.amount} exceeds the maximum of ${legal.maxRaise.value}`,
+            reason: `Raise to ${a.amount} exceeds the ${maximum} of ${legal.maxRaise.value}`,
           }),
         );
       }
       return Either.right(a);
     }),
-    Match.tag("AllIn", (a) =>
-      legal.canAllIn
-        ? Either.right(a)
-        : Either.left(
-            new InvalidAction({
-              action: "AllIn",
-              reason: "Cannot go all-in with zero chips",
-            }),
-          ),
-    ),
+    Match.tag("AllIn", (a) => {
+      if (legal.canAllIn) return Either.right(a);
+      if (chipsToNumber(legal.allInAmount) === 0) {
+        return Either.left(
+          new InvalidAction({
+            action: "AllIn",
+            reason: "Cannot go all-in with zero chips",
+          }),
+        );
+      }
+      return Either.left(
+        new InvalidAction({
+          action: "AllIn",
+          reason: `All-in of ${legal.allInAmount} exceeds the ${maximum} — bet or raise the maximum instead`,
+        }),
+      );
+    }),
     Match.exhaustive,
   );
 }
@@ -12,7 +12,7 @@ import {
 } from "./brand";
 import type { Player } from "./player";
 import { canAct, placeBet, fold as foldPlayer } from "./player";
-import type { Action, LegalActions } from "./action";
+import type { Action, BettingLimits, BettingStructure, LegalActions } from "./action";
 import { computeLegalActions, validateAction } from "./action";
 import type { GameEvent } from "./event";
 import { PlayerActed, BettingRoundEnded } from "./event";
@@ -33,8 +33,26 @@ export interface BettingRoundState {
   readonly isComplete: boolean;
   readonly hasBetThisRound: boolean;
   readonly actedThisRound: HashSet.HashSet<SeatIndex>;
+  readonly structure: BettingStructure;
+  /** Chips collected into pots before this round started. */
+  readonly collectedPot: Chips;
+  /** Full raises made this round (an opening bet is not a raise). */
+  readonly raiseCount: number;
+  /** Fixed-limit only: raises allowed per round while 3+ players remain. */
+  readonly raiseCap: number;
 }
 
+export interface BettingRoundOptions {
+  readonly structure?: BettingStructure;
+  readonly collectedPot?: Chips;
+  /** Raises already made before the round opens, e.g. a straddle. */
+  readonly raiseCount?: number;
+  readonly raiseCap?: number;
+}
+
+/** Default fixed-limit cap: one bet and three raises per street. */
+export const DEFAULT_RAISE_CAP = 3;
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -75,6 +93,7 @@ export function createBettingRound(
   firstToActSeat: SeatIndex,
   biggestBet: Chips,
   minRaise: Chips,
+  options: BettingRoundOptions = {},
 ): BettingRoundState {
   const activePlayers = players.filter(canAct);
 
@@ -92,7 +111,12 @@ export function createBettingRound(
   const activeSeatOrder = pipe(rotated, A.map((p) => p.seatIndex));
 
   const nonFolded = players.filter((p) => !p.isFolded);
-  const isComplete = nonFolded.length <= 1 || activeSeatOrder.length <= 1;
+  // A lone player who can act still has to answer a bet they have not matched
+  const lone = activeSeatOrder.length === 1 ? rotated[0] : undefined;
+  const isComplete =
+    nonFolded.length <= 1 ||
+    activeSeatOrder.length === 0 ||
+    (lone !== undefined && chipsToNumber(lone.currentBet) >= chipsToNumber(biggestBet));
 
   return {
     name,
@@ -105,6 +129,10 @@ export function createBettingRound(
     isComplete,
     hasBetThisRound: chipsToNumber(biggestBet) > 0,
     actedThisRound: HashSet.empty<SeatIndex>(),
+    structure: options.structure ?? "NoLimit",
+    collectedPot: options.collectedPot ?? ZERO_CHIPS,
+    raiseCount: options.raiseCount ?? 0,
+    raiseCap: options.raiseCap ?? DEFAULT_RAISE_CAP,
   };
 }
 
@@ -112,7 +140,19 @@ export function createBettingRound(
 // getLegalActions
 // ---------------------------------------------------------------------------
 
+function bettingLimits(state: BettingRoundState): BettingLimits {
+  const potSize = pipe(
+    state.players,
+    A.reduce(state.collectedPot, (sum, p) => addChips(sum, p.currentBet)),
+  );
+  // The raise cap is lifted once play is heads-up
+  const contenders = state.players.filter((p) => !p.isFolded).length;
+  const raiseCapped = state.raiseCount >= state.raiseCap && contenders > 2;
+  return { structure: state.structure, potSize, raiseCapped };
+}
+
 export function getLegalActions(state: BettingRoundState): LegalActions {
+  const limits = bettingLimits(state);
   return pipe(
     activePlayer(state),
     Option.match({
@@ -123,6 +163,7 @@ export function getLegalActions(state: BettingRoundState): LegalActions {
           state.biggestBet,
           state.minRaise,
           state.hasBetThisRound,
+          limits,
         ),
       onSome: (seat) => {
         const player = getPlayer(state, seat);
@@ -133,6 +174,7 @@ export function getLegalActions(state: BettingRoundState): LegalActions {
             state.biggestBet,
             state.minRaise,
             state.hasBetThisRound,
+            limits,
           );
         }
         return computeLegalActions(
@@ -141,6 +183,7 @@ export function getLegalActions(state: BettingRoundState): LegalActions {
           state.biggestBet,
           state.minRaise,
           state.hasBetThisRound,
+          limits,
         );
       },
     }),
@@ -192,7 +235,7 @@ export function applyAction(
 
   // 2. Validate
   const legal = getLegalActions(state);
-  const validated = validateAction(action, legal);
+  const validated = validateAction(action, legal, state.structure);
   if (Either.isLeft(validated)) {
     return Either.left(validated.left);
   }
@@ -209,6 +252,7 @@ export function applyAction(
   let newLastAggressor = state.lastAggressor;
   let newHasBetThisRound = state.hasBetThisRound;
   let newActedThisRound = state.actedThisRound;
+  let newRaiseCount = state.raiseCount;
   let newActiveSeatOrder = [...state.activeSeatOrder];
   let removeFromActive = false;
 
@@ -246,6 +290,7 @@ export function applyAction(
       updatedPlayer = placeBet(player, additionalChips);
       newBiggestBet = a.amount;
       newMinRaise = subtractChips(a.amount, oldBiggestBet);
+      newRaiseCount = state.raiseCount + 1;
       newLastAggressor = Option.some(seat);
       newActedThisRound = HashSet.empty<SeatIndex>();
       if (updatedPlayer.isAllIn) {
@@ -259,6 +304,7 @@ export function applyAction(
         const raiseIncrement = chipsToNumber(allInTotal) - chipsToNumber(state.biggestBet);
         if (raiseIncrement >= chipsToNumber(state.minRaise)) {
           newMinRaise = makeChips(raiseIncrement);
+          if (state.hasBetThisRound) newRaiseCount = state.raiseCount + 1;
         }
         newBiggestBet = allInTotal;
         newLastAggressor = Option.some(seat);
@@ -311,6 +357,7 @@ export function applyAction(
     lastAggressor: newLastAggressor,
     hasBetThisRound: newHasBetThisRound,
     actedThisRound: newActedThisRound,
+    raiseCount: newRaiseCount,
     isComplete: false,
   };
 
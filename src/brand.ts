@@ -61,6 +61,10 @@ export const subtractChips = (a: Chips, b: Chips): Chips =>
 export const minChips = (a: Chips, b: Chips): Chips =>
   a <= b ? a : b;
 
+/** Return the larger of two Chips values. */
+export const maxChips = (a: Chips, b: Chips): Chips =>
+  a >= b ? a : b;
+
 /** Unwrap a Chips value to a plain number. */
 export const chipsToNumber = (c: Chips): number => c;
 
@@ -138,3 +142,24 @@ export const HandId = Brand.nominal<HandId>();
  * Schema for {@link HandId} — a `Schema.String` branded as `"HandId"`.
  */
 export const HandIdSchema = Schema.String.pipe(Schema.fromBrand(HandId));
+
+// ---------------------------------------------------------------------------
+// PlayerId
+// ---------------------------------------------------------------------------
+
+/**
+ * Identifies a player across seats, tables and sessions.
+ *
+ * Nominal brand only — any string is a valid player id.
+ */
+export type PlayerId = string & Brand.Brand<"PlayerId">;
+
+/**
+ * Constructor for {@link PlayerId}.
+ */
+export const PlayerId = Brand.nominal<PlayerId>();
+
+/**
+ * Schema for {@link PlayerId} — a `Schema.String` branded as `"PlayerId"`.
+ */
+export const PlayerIdSchema = Schema.String.pipe(Schema.fromBrand(PlayerId));
@@ -57,6 +57,26 @@ export const ALL_CARDS: readonly Card[] = pipe(
   A.flatMap((rank) => A.map(SUITS, (suit) => card(rank, suit))),
 );
 
+/** Short-deck (6+) 36-card deck: ALL_CARDS without the 2s through 5s. */
+export const SHORT_DECK_CARDS: readonly Card[] = pipe(
+  ALL_CARDS,
+  A.filter((c) => c.rank >= 6),
+);
+
+// ---------------------------------------------------------------------------
+// Integer encoding
+// ---------------------------------------------------------------------------
+
+/** Compact card code 0-51: `(rank - 2) * 4 + suit index`, the card's index in ALL_CARDS. */
+export type CardCode = number;
+
+/** Encode a Card as its CardCode. */
+export const cardCode = (c: Card): CardCode =>
+  (c.rank - 2) * 4 + SUITS.indexOf(c.suit);
+
+/** Decode a CardCode back into a Card, or undefined if out of range. */
+export const fromCardCode = (code: CardCode): Card | undefined => ALL_CARDS[code];
+
 // ---------------------------------------------------------------------------
 // Pokersolver string conversion
 // ---------------------------------------------------------------------------
@@ -12,19 +12,24 @@ import { DeckExhausted } from "./error";
 export type Deck = readonly Card[];
 
 // ---------------------------------------------------------------------------
-// shuffled — the ONLY effectful operation in the entire engine
+// shuffle — the ONLY effectful operation in the entire engine
 // ---------------------------------------------------------------------------
 
 /**
- * Returns a freshly shuffled 52-card deck.
+ * Returns a freshly shuffled copy of `cards`.
  *
  * This is the single effectful entry point for the engine: every other
  * function in every other module is pure.
  */
-export const shuffled: Effect.Effect<Deck> = Effect.map(
-  Random.shuffle(ALL_CARDS),
-  (chunk): Deck => Chunk.toReadonlyArray(chunk),
-);
+export function shuffle(cards: readonly Card[]): Effect.Effect<Deck> {
+  return Effect.map(
+    Random.shuffle(cards),
+    (chunk): Deck => Chunk.toReadonlyArray(chunk),
+  );
+}
+
+/** A freshly shuffled standard 52-card deck. */
+export const shuffled: Effect.Effect<Deck> = shuffle(ALL_CARDS);
 
 // ---------------------------------------------------------------------------
 // draw — take N cards from the top of the deck
@@ -50,44 +55,39 @@ export function draw(
 }
 
 // ---------------------------------------------------------------------------
-// dealHoleCards — deal 2 cards per seat, sequentially
+// dealHoleCards — deal N cards per seat, sequentially
 // ---------------------------------------------------------------------------
 
 /**
- * Deal two hole cards to each seat in order.
+ * Deal `count` hole cards (two by default) to each seat in order.
  *
- * Cards are dealt sequentially: seat_0 gets [card_0, card_1],
- * seat_1 gets [card_2, card_3], and so on.
+ * Cards are dealt sequentially: with two cards, seat_0 gets
+ * [card_0, card_1], seat_1 gets [card_2, card_3], and so on.
  *
  * @returns Either a tuple of `[holeCardsMap, remaining]`, or `DeckExhausted`.
  */
 export function dealHoleCards(
   deck: Deck,
   seatOrder: readonly SeatIndex[],
+  count = 2,
 ): Either.Either<
-  [HashMap.HashMap<SeatIndex, readonly [Card, Card]>, Deck],
+  [HashMap.HashMap<SeatIndex, readonly Card[]>, Deck],
   DeckExhausted
 > {
-  const needed = seatOrder.length * 2;
+  const needed = seatOrder.length * count;
   if (needed > deck.length) {
     return Either.left(
       new DeckExhausted({ requested: needed, remaining: deck.length }),
     );
   }
 
-  let map = HashMap.empty<SeatIndex, readonly [Card, Card]>();
+  let map = HashMap.empty<SeatIndex, readonly Card[]>();
   let offset = 0;
 
   for (const seat of seatOrder) {
-    const card1 = deck[offset];
-    const card2 = deck[offset + 1];
-    if (card1 === undefined || card2 === undefined) {
-      return Either.left(
-        new DeckExhausted({ requested: needed, remaining: deck.length }),
-      );
-    }
-    map = HashMap.set(map, seat, [card1, card2] as const);
-    offset += 2;
+    const cards: readonly Card[] = deck.slice(offset, offset + count);
+    map = HashMap.set(map, seat, cards);
+    offset += count;
   }
 
   const remaining: Deck = A.drop(deck, offset);
@@ -0,0 +1,519 @@
+/**
+ * All-in equity: each player's share of the pot once the board runs out.
+ *
+ * Players hold known cards, a weighted range of combos, or a random hand.
+ * Small spots are enumerated exactly; larger ones are sampled through
+ * Effect's `Random`, in batches that report progress and can be interrupted.
+ * Whole ranges can also be set against each other, combo by combo.
+ *
+ * @module
+ */
+
+import { Data, Duration, Effect, Either, Option, Random, Schema } from "effect";
+
+import type { Card, CardCode } from "./card";
+import { ALL_CARDS, cardCode, toPokersolverString } from "./card";
+import { handStrength } from "./evaluator";
+import { InvalidGameState } from "./error";
+import type { Combo, Range, WeightedCombo } from "./range";
+import { rangeCombos, removeBlocked } from "./range";
+
+// ---------------------------------------------------------------------------
+// Hands
+// ---------------------------------------------------------------------------
+
+/** What we know about one player's hole cards. */
+export type EquityHand = Data.TaggedEnum<{
+  Known: { readonly cards: Combo };
+  Range: { readonly combos: readonly WeightedCombo[] };
+  Random: {};
+}>;
+
+export const KnownHand = Data.tagged<Extract<EquityHand, { _tag: "Known" }>>("Known");
+export const RangeHand = Data.tagged<Extract<EquityHand, { _tag: "Range" }>>("Range");
+export const RandomHand = Data.tagged<Extract<EquityHand, { _tag: "Random" }>>("Random")();
+
+// ---------------------------------------------------------------------------
+// Request, options and results
+// ---------------------------------------------------------------------------
+
+export interface EquityRequest {
+  readonly hands: readonly EquityHand[];
+  /** Community cards already dealt (0-5). */
+  readonly board?: readonly Card[];
+  /** Cards known to be out of play. */
+  readonly dead?: readonly Card[];
+}
+
+export interface EquityOptions {
+  /** Enumerate every deal when there are at most this many. Default 100_000. */
+  readonly exhaustiveLimit?: number;
+  /** Deals to sample otherwise. Default 10_000. */
+  readonly samples?: number;
+  /** Deals scored between progress reports. Default 1_000. */
+  readonly batchSize?: number;
+  readonly onProgress?: (progress: EquityProgress) => void;
+}
+
+export const PlayerEquitySchema = Schema.Struct({
+  /** Percentages of deals won outright, tied and lost. */
+  win: Schema.Number,
+  tie: Schema.Number,
+  lose: Schema.Number,
+  /** Percentage of the pot won on average, counting split pots. */
+  equity: Schema.Number,
+  /** 95% confidence interval for `equity`; zero width when enumerated. */
+  interval: Schema.Struct({ lower: Schema.Number, upper: Schema.Number }),
+});
+export type PlayerEquity = Schema.Schema.Type<typeof PlayerEquitySchema>;
+
+export const EquityResultSchema = Schema.Struct({
+  /** One entry per hand, in request order. */
+  players: Schema.Array(PlayerEquitySchema),
+  trials: Schema.Number.pipe(Schema.int(), Schema.nonNegative()),
+  exhaustive: Schema.Boolean,
+});
+export type EquityResult = Schema.Schema.Type<typeof EquityResultSchema>;
+
+export interface EquityProgress {
+  readonly trials: number;
+  /** Deals planned: the sample count, or an upper bound when enumerating. */
+  readonly total: number;
+  /** Results so far. */
+  readonly current: EquityResult;
+}
+
+// ---------------------------------------------------------------------------
+// Preparation — validate and encode the request
+// ---------------------------------------------------------------------------
+
+/** A player's candidate hole cards; `undefined` for a random hand. */
+interface Candidates {
+  /** Known cards are already among the fixed cards. */
+  readonly known: boolean;
+  readonly codes: readonly (readonly [CardCode, CardCode])[];
+  /** Running total of weights, for sampling. */
+  readonly cumulative: readonly number[];
+}
+
+interface Prepared {
+  readonly players: readonly (Candidates | undefined)[];
+  readonly board: readonly CardCode[];
+  /** Known hole cards, board and dead cards. */
+  readonly fixed: ReadonlySet<CardCode>;
+}
+
+const invalid = (reason: string) => new InvalidGameState({ state: "equity", reason });
+
+function prepare(request: EquityRequest): Either.Either<Prepared, InvalidGameState> {
+  const board = request.board ?? [];
+  const dead = request.dead ?? [];
+  if (request.hands.length < 2) return Either.left(invalid(`Need at least 2 hands, got ${request.hands.length}`));
+  if (board.length > 5) return Either.left(invalid(`A board has at most 5 cards, got ${board.length}`));
+
+  const known = request.hands.flatMap((h) => (h._tag === "Known" ? h.cards : []));
+  const fixedCards = [...known, ...board, ...dead];
+  const fixed = new Set(fixedCards.map(cardCode));
+  if (fixed.size !== fixedCards.length) {
+    return Either.left(invalid(`Duplicate cards: ${fixedCards.map(toPokersolverString).join(" ")}`));
+  }
+
+  const players: (Candidates | undefined)[] = [];
+  for (const [i, hand] of request.hands.entries()) {
+    if (hand._tag === "Random") {
+      players.push(undefined);
+      continue;
+    }
+    const combos = hand._tag === "Known" ? [{ combo: hand.cards, weight: 1 }] : hand.combos;
+    if (combos.some((c) => !(c.weight >= 0))) return Either.left(invalid(`Hand ${i + 1} has a negative weight`));
+
+    const live = combos.flatMap(({ combo: [a, b], weight }) => {
+      const codes = [cardCode(a), cardCode(b)] as const;
+      const blocked = hand._tag === "Range" && (fixed.has(codes[0]) || fixed.has(codes[1]));
+      return weight > 0 && !blocked && codes[0] !== codes[1] ? [{ codes, weight }] : [];
+    });
+    if (live.length === 0) return Either.left(invalid(`Hand ${i + 1} has no live combos`));
+
+    let total = 0;
+    players.push({
+      known: hand._tag === "Known",
+      codes: live.map((c) => c.codes),
+      cumulative: live.map((c) => (total += c.weight)),
+    });
+  }
+
+  return Either.right({ players, board: board.map(cardCode), fixed });
+}
+
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  let result = 1;
+  for (let i = 0; i < k; i++) result = (result * (n - i)) / (i + 1);
+  return result;
+}
+
+/** Upper bound on the number of deals: blockers between ranges are ignored. */
+function countDeals(p: Prepared): number {
+  let left = 52 - p.fixed.size;
+  let deals = 1;
+  for (const player of p.players) {
+    if (player === undefined) {
+      deals *= choose(left, 2);
+      left -= 2;
+    } else if (!player.known) {
+      deals *= player.codes.length;
+      left -= 2;
+    }
+  }
+  return deals * choose(left, 5 - p.board.length);
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+interface Tally {
+  readonly win: number[];
+  readonly tie: number[];
+  /** Share of the pot won, and its square, for the confidence interval. */
+  readonly share: number[];
+  readonly shareSquared: number[];
+  weight: number;
+  trials: number;
+}
+
+const newTally = (players: number): Tally => ({
+  win: new Array<number>(players).fill(0),
+  tie: new Array<number>(players).fill(0),
+  share: new Array<number>(players).fill(0),
+  shareSquared: new Array<number>(players).fill(0),
+  weight: 0,
+  trials: 0,
+});
+
+/** Score one deal: each player's best hand from their hole cards and the full board. */
+function score(tally: Tally, holes: readonly (readonly CardCode[])[], board: readonly CardCode[], weight: number) {
+  const strengths = holes.map((hole) => handStrength([...hole, ...board]));
+  const best = Math.max(...strengths);
+  const winners = strengths.filter((s) => s === best).length;
+  for (const [i, s] of strengths.entries()) {
+    if (s !== best) continue;
+    const share = 1 / winners;
+    if (winners === 1) tally.win[i] = (tally.win[i] ?? 0) + weight;
+    else tally.tie[i] = (tally.tie[i] ?? 0) + weight;
+    tally.share[i] = (tally.share[i] ?? 0) + weight * share;
+    tally.shareSquared[i] = (tally.shareSquared[i] ?? 0) + weight * share * share;
+  }
+  tally.weight += weight;
+  tally.trials += 1;
+}
+
+function toResult(tally: Tally, exhaustive: boolean): EquityResult {
+  const percent = (x: number) => (tally.weight > 0 ? (100 * x) / tally.weight : 0);
+  const players = tally.share.map((share, i): PlayerEquity => {
+    const win = percent(tally.win[i] ?? 0);
+    const tie = percent(tally.tie[i] ?? 0);
+    const equity = percent(share);
+    const mean = equity / 100;
+    const variance = Math.max(0, percent(tally.shareSquared[i] ?? 0) / 100 - mean * mean);
+    const margin = exhaustive || tally.trials === 0 ? 0 : 196 * Math.sqrt(variance / tally.trials);
+    return {
+      win,
+      tie,
+      lose: Math.max(0, 100 - win - tie),
+      equity,
+      interval: { lower: Math.max(0, equity - margin), upper: Math.min(100, equity + margin) },
+    };
+  });
+  return { players, trials: tally.trials, exhaustive };
+}
+
+// ---------------------------------------------------------------------------
+// Exhaustive enumeration
+// ---------------------------------------------------------------------------
+
+interface Deal {
+  readonly holes: readonly (readonly CardCode[])[];
+  readonly board: readonly CardCode[];
+  readonly weight: number;
+}
+
+/** Every deal of hole cards and board completions, weighted by the combos dealt. */
+function* enumerateDeals(p: Prepared): Generator<Deal> {
+  const used = new Set(p.fixed);
+  const holes: (readonly CardCode[])[] = p.players.map(() => []);
+  const free = () => ALL_CARDS.map(cardCode).filter((c) => !used.has(c));
+
+  function* boards(start: readonly CardCode[], cards: readonly CardCode[], weight: number): Generator<Deal> {
+    if (start.length === 5) {
+      yield { holes, board: start, weight };
+      return;
+    }
+    for (const [i, c] of cards.entries()) {
+      yield* boards([...start, c], cards.slice(i + 1), weight);
+    }
+  }
+
+  function* deal(player: number, weight: number): Generator<Deal> {
+    if (player === p.players.length) {
+      yield* boards(p.board, free(), weight);
+      return;
+    }
+    const candidates = p.players[player];
+    const options = candidates === undefined
+      ? free().flatMap((a, i, cards) => cards.slice(i + 1).map((b) => ({ codes: [a, b] as const, weight: 1 })))
+      : candidates.codes.map((codes, i) => ({
+          codes,
+          weight: (candidates.cumulative[i] ?? 0) - (candidates.cumulative[i - 1] ?? 0),
+        }));
+
+    if (candidates?.known === true) {
+      holes[player] = candidates.codes[0] ?? [];
+      yield* deal(player + 1, weight);
+      return;
+    }
+    for (const { codes: [a, b], weight: w } of options) {
+      if (used.has(a) || used.has(b)) continue;
+      used.add(a);
+      used.add(b);
+      holes[player] = [a, b];
+      yield* deal(player + 1, weight * w);
+      used.delete(a);
+      used.delete(b);
+    }
+  }
+
+  yield* deal(0, 1);
+}
+
+// ---------------------------------------------------------------------------
+// Monte Carlo sampling
+// ---------------------------------------------------------------------------
+
+/** Index of the combo whose weight band contains `r`. */
+function pickWeighted(cumulative: readonly number[], r: number): number {
+  let lo = 0;
+  let hi = cumulative.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if ((cumulative[mid] ?? 0) > r) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/** Sample one deal, or none when two ranges drew overlapping combos. */
+function sampleDeal(p: Prepared): Effect.Effect<Option.Option<Deal>> {
+  return Effect.gen(function* () {
+    const used = new Set(p.fixed);
+    const holes: (readonly CardCode[])[] = [];
+
+    for (const candidates of p.players) {
+      if (candidates === undefined) {
+        holes.push([]);
+        continue;
+      }
+      if (candidates.known) {
+        holes.push(candidates.codes[0] ?? []);
+        continue;
+      }
+      const total = candidates.cumulative[candidates.cumulative.length - 1] ?? 0;
+      const r = candidates.codes.length === 1 ? 0 : (yield* Random.next) * total;
+      const codes = candidates.codes[pickWeighted(candidates.cumulative, r)];
+      if (codes === undefined || used.has(codes[0]) || used.has(codes[1])) return Option.none();
+      used.add(codes[0]);
+      used.add(codes[1]);
+      holes.push(codes);
+    }
+
+    // Random hands and the rest of the board come off the remaining deck
+    const deck = ALL_CARDS.map(cardCode).filter((c) => !used.has(c));
+    let drawn = 0;
+    const draw = () => Effect.map(Random.nextIntBetween(drawn, deck.length), (j) => {
+      const card = deck[j] ?? 0;
+      deck[j] = deck[drawn] ?? 0;
+      deck[drawn] = card;
+      drawn += 1;
+      return card;
+    });
+
+    for (const [i, candidates] of p.players.entries()) {
+      if (candidates === undefined) holes[i] = [yield* draw(), yield* draw()];
+    }
+    const board = [...p.board];
+    while (board.length < 5) board.push(yield* draw());
+
+    return Option.some({ holes, board, weight: 1 });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// calculateEquity
+// ---------------------------------------------------------------------------
+
+/**
+ * All-in equity for every hand in the request. Deals are enumerated when
+ * there are at most `exhaustiveLimit` of them and sampled otherwise. Work
+ * runs asynchronously in batches, sleeping for zero time between them so
+ * timers and interrupts get a turn: the effect can be cut short with
+ * `Effect.timeout` or `Fiber.interrupt`, and reports progress as it goes.
+ */
+export function calculateEquity(
+  request: EquityRequest,
+  options: EquityOptions = {},
+): Effect.Effect<EquityResult, InvalidGameState> {
+  const batchSize = Math.max(1, options.batchSize ?? 1_000);
+
+  return Effect.gen(function* () {
+    const prepared = prepare(request);
+    if (Either.isLeft(prepared)) return yield* Effect.fail(prepared.left);
+    const p = prepared.right;
+
+    const tally = newTally(p.players.length);
+    const deals = countDeals(p);
+    const exhaustive = deals <= (options.exhaustiveLimit ?? 100_000);
+    const total = exhaustive ? deals : Math.max(1, options.samples ?? 10_000);
+    const report = () => options.onProgress?.({ trials: tally.trials, total, current: toResult(tally, exhaustive) });
+
+    if (exhaustive) {
+      const iterator = enumerateDeals(p);
+      for (let next = iterator.next(); next.done !== true; ) {
+        for (let n = 0; n < batchSize && next.done !== true; n++, next = iterator.next()) {
+          score(tally, next.value.holes, next.value.board, next.value.weight);
+        }
+        report();
+        yield* Effect.sleep(Duration.zero);
+      }
+      if (tally.weight === 0) return yield* Effect.fail(invalid("The hands leave no possible deal"));
+      return toResult(tally, true);
+    }
+
+    // Give up when ranges collide so often that sampling cannot make progress
+    let rejected = 0;
+    while (tally.trials < total) {
+      const batchEnd = Math.min(total, tally.trials + batchSize);
+      while (tally.trials < batchEnd) {
+        const deal = yield* sampleDeal(p);
+        if (Option.isSome(deal)) {
+          score(tally, deal.value.holes, deal.value.board, deal.value.weight);
+        } else if (++rejected > 100 * total) {
+          return yield* Effect.fail(invalid("The ranges overlap too much to sample"));
+        }
+      }
+      report();
+      yield* Effect.sleep(Duration.zero);
+    }
+    return toResult(tally, false);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Range vs range
+// ---------------------------------------------------------------------------
+
+export interface RangeEquityRequest {
+  /** Hero's range first, then one range per opponent. */
+  readonly ranges: readonly Range[];
+  readonly board?: readonly Card[];
+  readonly dead?: readonly Card[];
+}
+
+export interface RangeEquityOptions extends Omit<EquityOptions, "onProgress"> {
+  /** Equal-width buckets in the equity distribution. Default 10. */
+  readonly buckets?: number;
+  /** Called after each of hero's combos is scored. */
+  readonly onProgress?: (progress: RangeEquityProgress) => void;
+}
+
+export interface RangeEquityProgress {
+  readonly combos: number;
+  /** Hero's live combos. */
+  readonly total: number;
+}
+
+export const ComboEquitySchema = Schema.Struct({
+  /** Hero's hole cards, e.g. "AhKh". */
+  combo: Schema.String,
+  /** The combo's weight in hero's range. */
+  weight: Schema.Number,
+  equity: PlayerEquitySchema,
+});
+export type ComboEquity = Schema.Schema.Type<typeof ComboEquitySchema>;
+
+export const EquityBucketSchema = Schema.Struct({
+  /** Equity bounds of the bucket, in percent; the last bucket includes its upper bound. */
+  lower: Schema.Number,
+  upper: Schema.Number,
+  /** Total weight of hero's combos in the bucket. */
+  weight: Schema.Number,
+});
+export type EquityBucket = Schema.Schema.Type<typeof EquityBucketSchema>;
+
+export const RangeEquityResultSchema = Schema.Struct({
+  /** Every range's overall equity, in request order. */
+  players: Schema.Array(PlayerEquitySchema),
+  /** Hero's combos against the other ranges, best equity first. */
+  combos: Schema.Array(ComboEquitySchema),
+  /** Hero's combos by equity, lowest bucket first. */
+  distribution: Schema.Array(EquityBucketSchema),
+});
+export type RangeEquityResult = Schema.Schema.Type<typeof RangeEquityResultSchema>;
+
+/** Weight of hero's combos in each equity bucket. */
+function histogram(combos: readonly ComboEquity[], buckets: number): readonly EquityBucket[] {
+  const weights = new Array<number>(buckets).fill(0);
+  for (const { weight, equity } of combos) {
+    const i = Math.min(buckets - 1, Math.floor((equity.equity * buckets) / 100));
+    weights[i] = (weights[i] ?? 0) + weight;
+  }
+  return weights.map((weight, i) => ({ lower: (100 * i) / buckets, upper: (100 * (i + 1)) / buckets, weight }));
+}
+
+/**
+ * Equity of hero's range (the first) against one or more opponent ranges
+ * on a board: every range's overall equity, then each of hero's combos
+ * against the others and hero's equity distribution. Each calculation
+ * enumerates or samples as `calculateEquity` does. Hero combos that leave
+ * an opponent with no live combos cannot be dealt and are skipped.
+ */
+export function calculateRangeEquity(
+  request: RangeEquityRequest,
+  options: RangeEquityOptions = {},
+): Effect.Effect<RangeEquityResult, InvalidGameState> {
+  const { buckets = 10, onProgress, ...equityOptions } = options;
+  const board = request.board ?? [];
+  const dead = request.dead ?? [];
+
+  return Effect.gen(function* () {
+    const [hero, ...villains] = request.ranges;
+    if (hero === undefined || villains.length === 0) {
+      return yield* Effect.fail(invalid(`Need at least 2 ranges, got ${request.ranges.length}`));
+    }
+    if (!(Number.isInteger(buckets) && buckets > 0)) {
+      return yield* Effect.fail(invalid(`Bucket count must be a positive integer, got ${buckets}`));
+    }
+
+    const overall = yield* calculateEquity(
+      { hands: request.ranges.map((range) => RangeHand({ combos: rangeCombos(range) })), board, dead },
+      equityOptions,
+    );
+
+    const heroCombos = rangeCombos(removeBlocked(hero, [...board, ...dead]));
+    const combos: ComboEquity[] = [];
+    for (const [i, { combo, weight }] of heroCombos.entries()) {
+      const opponents = villains.map((range) => rangeCombos(removeBlocked(range, [...combo, ...board, ...dead])));
+      if (opponents.every((live) => live.length > 0)) {
+        const result = yield* calculateEquity(
+          { hands: [KnownHand({ cards: combo }), ...opponents.map((live) => RangeHand({ combos: live }))], board, dead },
+          equityOptions,
+        );
+        const equity = result.players[0];
+        if (equity !== undefined) combos.push({ combo: combo.map(toPokersolverString).join(""), weight, equity });
+      }
+      onProgress?.({ combos: i + 1, total: heroCombos.length });
+    }
+
+    combos.sort((a, b) => b.equity.equity - a.equity.equity);
+    return { players: overall.players, combos, distribution: histogram(combos, buckets) };
+  });
+}
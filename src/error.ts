@@ -64,6 +64,13 @@ export class SeatEmpty extends Data.TaggedError("SeatEmpty")<{
 /** No seats are available at the table. */
 export class TableFull extends Data.TaggedError("TableFull")<{}> {}
 
+/** Chips brought to the table fall outside its buy-in limits. */
+export class InvalidBuyIn extends Data.TaggedError("InvalidBuyIn")<{
+  readonly seat: SeatIndex;
+  readonly amount: Chips;
+  readonly reason: string;
+}> {}
+
 // ---------------------------------------------------------------------------
 // Hand lifecycle errors
 // ---------------------------------------------------------------------------
@@ -96,6 +103,12 @@ export class InvalidCard extends Data.TaggedError("InvalidCard")<{
   readonly reason: string;
 }> {}
 
+/** A hand range could not be parsed. */
+export class InvalidRange extends Data.TaggedError("InvalidRange")<{
+  readonly input: string;
+  readonly reason: string;
+}> {}
+
 /** Table configuration is invalid. */
 export class InvalidConfig extends Data.TaggedError("InvalidConfig")<{
   readonly reason: string;
@@ -119,9 +132,11 @@ export type PokerError =
   | SeatOccupied
   | SeatEmpty
   | TableFull
+  | InvalidBuyIn
   | NotEnoughPlayers
   | HandInProgress
   | NoHandInProgress
   | DeckExhausted
   | InvalidCard
+  | InvalidRange
   | InvalidConfig;
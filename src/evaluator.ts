@@ -1,80 +1,304 @@
-import { Array as A, Either, Order, pipe } from "effect";
-import pokersolver from "pokersolver";
-import type { Hand } from "pokersolver";
-const { Hand: PokersolverHand } = pokersolver;
-import type { Card } from "./card";
-import { toPokersolverString } from "./card";
+import { Array as A, Either, Option, Order, Schema, pipe } from "effect";
+import type { Card, CardCode, Rank, Suit } from "./card";
+import { RANKS, SUITS, cardCode, toPokersolverString } from "./card";
 import { InvalidGameState } from "./error";
 
 // ---------------------------------------------------------------------------
-// HandRank — our public type that does NOT leak pokersolver internals
+// HandRank — our public hand-ranking type
 // ---------------------------------------------------------------------------
 
-export interface HandRank {
-  readonly name: string;
-  readonly description: string;
-  readonly rank: number;
-  readonly bestCards: readonly string[];
-  /** @internal pokersolver Hand object for accurate intra-category comparison. */
-  readonly _solved?: Hand;
-}
+export const HandRankSchema = Schema.Struct({
+  name: Schema.String,
+  description: Schema.String,
+  /** Hand category in pokersolver's numbering (Flush 6, Full House 7) for every variant. */
+  rank: Schema.Number.pipe(Schema.int()),
+  bestCards: Schema.Array(Schema.String),
+  /** Total-order key: the variant's category order, then the ranks that break ties, compared left to right. */
+  key: Schema.Array(Schema.Number),
+});
+export type HandRank = Schema.Schema.Type<typeof HandRankSchema>;
 
 // ---------------------------------------------------------------------------
 // HandRankOrder
 // ---------------------------------------------------------------------------
 
-/** Order instance for HandRank — higher rank = better hand. */
+/** Order instance for HandRank — compares keys left to right; higher = better hand. */
 export const HandRankOrder: Order.Order<HandRank> = Order.mapInput(
-  Order.number,
-  (h: HandRank) => h.rank,
+  Order.array(Order.number),
+  (h: HandRank) => h.key,
 );
 
 // ---------------------------------------------------------------------------
-// evaluate — solve a set of cards and return a HandRank
+// Lookup tables — indexed by a 13-bit rank mask (bit 0 = deuce, bit 12 = ace)
+// ---------------------------------------------------------------------------
+
+/** Ranks are packed into a strength as 4-bit values `rank - 1`; 0 means no card. */
+const RANK_BITS = 4;
+const CATEGORY_SHIFT = 5 * RANK_BITS;
+const MASKS = 1 << 13;
+const WHEEL = 0b1_0000_0000_1111;
+
+/** Number of ranks in the mask. */
+const BIT_COUNT = new Uint8Array(MASKS);
+/** The mask's five highest ranks, packed high to low. */
+const TOP_FIVE = new Uint32Array(MASKS);
+/** Packed high rank of the best straight in the mask, or 0. */
+const STRAIGHT_TOP = new Uint8Array(MASKS);
+
+for (let mask = 0; mask < MASKS; mask++) {
+  let count = 0;
+  let top = 0;
+  for (let bit = 12; bit >= 0; bit--) {
+    if ((mask & (1 << bit)) === 0) continue;
+    if (count < 5) top |= (bit + 1) << (RANK_BITS * (4 - count));
+    count++;
+  }
+  BIT_COUNT[mask] = count;
+  TOP_FIVE[mask] = top;
+
+  for (let bit = 12; bit >= 4; bit--) {
+    const run = 0b11111 << (bit - 4);
+    if ((mask & run) === run) {
+      STRAIGHT_TOP[mask] = bit + 1;
+      break;
+    }
+  }
+  if (STRAIGHT_TOP[mask] === 0 && (mask & WHEEL) === WHEEL) STRAIGHT_TOP[mask] = 4;
+}
+
+const bitCount = (mask: number): number => BIT_COUNT[mask] ?? 0;
+const straightTop = (mask: number): number => STRAIGHT_TOP[mask] ?? 0;
+/** The `n` highest ranks of the mask, packed high to low. */
+const topRanks = (mask: number, n: number): number => (TOP_FIVE[mask] ?? 0) >> (RANK_BITS * (5 - n));
+/** Mask bit for a packed rank. */
+const bitOf = (packed: number): number => 1 << (packed - 1);
+
+// ---------------------------------------------------------------------------
+// handStrength — native evaluator on card codes
+// ---------------------------------------------------------------------------
+
+/** Hand categories, numbered like `HandRank.rank`. */
+const HIGH_CARD = 1;
+const PAIR = 2;
+const TWO_PAIR = 3;
+const THREE_OF_A_KIND = 4;
+const STRAIGHT = 5;
+const FLUSH = 6;
+const FULL_HOUSE = 7;
+const FOUR_OF_A_KIND = 8;
+const STRAIGHT_FLUSH = 9;
+
+const CATEGORY_NAMES: readonly string[] = [
+  "",
+  "High Card",
+  "Pair",
+  "Two Pair",
+  "Three of a Kind",
+  "Straight",
+  "Flush",
+  "Full House",
+  "Four of a Kind",
+  "Straight Flush",
+];
+
+/**
+ * Strength of the best five-card hand in `codes` (distinct cards, any
+ * number). Higher is better and equal strengths tie: the category sits in
+ * the top bits, followed by up to five ranks that decide within it.
+ */
+export function handStrength(codes: readonly CardCode[]): number {
+  // Bit-parallel rank counts: a rank's bit is set in `pairs` once it is seen twice, and so on
+  let ranks = 0;
+  let pairs = 0;
+  let trips = 0;
+  let quads = 0;
+  const suits = [0, 0, 0, 0];
+  for (const code of codes) {
+    const bit = 1 << (code >> 2);
+    quads |= trips & bit;
+    trips |= pairs & bit;
+    pairs |= ranks & bit;
+    ranks |= bit;
+    suits[code & 3] = (suits[code & 3] ?? 0) | bit;
+  }
+
+  const flush = suits.find((mask) => bitCount(mask) >= 5) ?? 0;
+  const strength = (category: number, packed: number) => (category << CATEGORY_SHIFT) | packed;
+
+  const straightFlush = straightTop(flush);
+  if (straightFlush !== 0) return strength(STRAIGHT_FLUSH, straightFlush << 16);
+
+  const quad = topRanks(quads, 1);
+  if (quad !== 0) return strength(FOUR_OF_A_KIND, (quad << 16) | (topRanks(ranks & ~bitOf(quad), 1) << 12));
+
+  const trip = topRanks(trips, 1);
+  const fill = trip === 0 ? 0 : topRanks(pairs & ~bitOf(trip), 1);
+  if (fill !== 0) return strength(FULL_HOUSE, (trip << 16) | (fill << 12));
+
+  if (flush !== 0) return strength(FLUSH, topRanks(flush, 5));
+
+  const straight = straightTop(ranks);
+  if (straight !== 0) return strength(STRAIGHT, straight << 16);
+
+  if (trip !== 0) return strength(THREE_OF_A_KIND, (trip << 16) | (topRanks(ranks & ~bitOf(trip), 2) << 8));
+
+  const pair = topRanks(pairs, 1);
+  if (pair === 0) return strength(HIGH_CARD, topRanks(ranks, 5));
+
+  const second = topRanks(pairs & ~bitOf(pair), 1);
+  if (second === 0) return strength(PAIR, (pair << 16) | (topRanks(ranks & ~bitOf(pair), 3) << 4));
+
+  const kicker = topRanks(ranks & ~bitOf(pair) & ~bitOf(second), 1);
+  return strength(TWO_PAIR, (pair << 16) | (second << 12) | (kicker << 8));
+}
+
+// ---------------------------------------------------------------------------
+// Strength → HandRank
+// ---------------------------------------------------------------------------
+
+/** How many cards each packed rank stands for, by category. */
+const GROUP_SIZES: Readonly<Record<number, readonly number[]>> = {
+  [PAIR]: [2, 1, 1, 1],
+  [TWO_PAIR]: [2, 2, 1],
+  [THREE_OF_A_KIND]: [3, 1, 1],
+  [FULL_HOUSE]: [3, 2],
+  [FOUR_OF_A_KIND]: [4, 1],
+};
+
+const toRank = (packed: number): Rank => (packed === 0 ? 14 : (RANKS[packed - 1] ?? 14));
+
+/** The ranks packed into a strength, best first. */
+const packedRanks = (strength: number): readonly number[] =>
+  [16, 12, 8, 4, 0]
+    .map((shift) => (strength >> shift) & 0xf)
+    .filter((p) => p !== 0);
+
+/** The HandRank key for a strength: category, then the packed ranks. */
+const strengthKey = (strength: number): readonly number[] => [
+  strength >> CATEGORY_SHIFT,
+  ...packedRanks(strength).map(toRank),
+];
+
+/** Rank of every card in the best hand, best first. A five-high straight ends with its ace. */
+function bestRanks(strength: number): readonly Rank[] {
+  const category = strength >> CATEGORY_SHIFT;
+  const packed = packedRanks(strength);
+
+  if (category === STRAIGHT || category === STRAIGHT_FLUSH) {
+    const top = packed[0] ?? 0;
+    return [0, 1, 2, 3, 4].map((i) => toRank(top - i));
+  }
+  const sizes = GROUP_SIZES[category] ?? [];
+  return packed.flatMap((p, i) => A.replicate(toRank(p), sizes[i] ?? 1));
+}
+
+/** Rank as it reads in a description: "10" for tens. */
+const rankLabel = (c: Card): string => (c.rank === 10 ? "10" : toPokersolverString(c).charAt(0));
+
+function describe(category: number, best: readonly Card[]): string {
+  const top = best[0];
+  if (top === undefined) return "";
+  const label = rankLabel(top);
+  const other = (i: number) => {
+    const c = best[i];
+    return c === undefined ? "" : rankLabel(c);
+  };
+
+  switch (category) {
+    case STRAIGHT_FLUSH:
+      return top.rank === 14 ? "Royal Flush" : `Straight Flush, ${label}${top.suit} High`;
+    case FOUR_OF_A_KIND:
+      return `Four of a Kind, ${label}'s`;
+    case FULL_HOUSE:
+      return `Full House, ${label}'s over ${other(3)}'s`;
+    case FLUSH:
+      return `Flush, ${label}${top.suit} High`;
+    case STRAIGHT:
+      return `Straight, ${label} High`;
+    case THREE_OF_A_KIND:
+      return `Three of a Kind, ${label}'s`;
+    case TWO_PAIR:
+      return `Two Pair, ${label}'s & ${other(2)}'s`;
+    case PAIR:
+      return `Pair, ${label}'s`;
+    default:
+      return `${label} High`;
+  }
+}
+
+/** The cards of the best hand for a strength, taken from `cards`, best first. */
+function pickBestCards(strength: number, cards: readonly Card[]): readonly Card[] {
+  const category = strength >> CATEGORY_SHIFT;
+  const suit: Suit | undefined = category === FLUSH || category === STRAIGHT_FLUSH
+    ? SUITS.find((s) => cards.filter((c) => c.suit === s).length >= 5)
+    : undefined;
+
+  // Highest cards first; cards of equal rank keep their input order
+  const pool = [...cards].sort((a, b) => b.rank - a.rank);
+  const best: Card[] = [];
+  for (const rank of bestRanks(strength)) {
+    const i = pool.findIndex((c) => c.rank === rank && (suit === undefined || c.suit === suit));
+    const found = pool[i];
+    if (found === undefined) continue;
+    best.push(found);
+    pool.splice(i, 1);
+  }
+  return best;
+}
+
+/**
+ * Build the HandRank for a strength. Names and descriptions read the same
+ * as pokersolver's. Ranking needs only the key, so the best cards and the
+ * description are worked out the first time they are read.
+ */
+function toHandRank(strength: number, cards: readonly Card[]): HandRank {
+  const category = strength >> CATEGORY_SHIFT;
+  let best: readonly Card[] | undefined;
+  let bestCards: readonly string[] | undefined;
+  let description: string | undefined;
+  const bestOf = () => (best ??= pickBestCards(strength, cards));
+
+  return {
+    name: CATEGORY_NAMES[category] ?? "",
+    get description() {
+      return (description ??= describe(category, bestOf()));
+    },
+    rank: category,
+    get bestCards() {
+      return (bestCards ??= Object.freeze(bestOf().map(toPokersolverString)));
+    },
+    key: strengthKey(strength),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// evaluate — rank a set of cards and return a HandRank
 // ---------------------------------------------------------------------------
 
 export function evaluate(
   cards: readonly Card[],
 ): Either.Either<HandRank, InvalidGameState> {
-  return Either.try({
-    try: () => {
-      const psStrings = cards.map(toPokersolverString);
-      const solved = PokersolverHand.solve(psStrings);
-      return {
-        name: solved.name,
-        description: solved.descr,
-        rank: solved.rank,
-        bestCards: Object.freeze(
-          solved.cards.map((c) => `${c.value}${c.suit}`),
-        ),
-        _solved: solved,
-      };
-    },
-    catch: (e) =>
+  const codes = cards.map(cardCode);
+  if (codes.length === 0) {
+    return Either.left(new InvalidGameState({ state: "evaluate", reason: "No cards to evaluate" }));
+  }
+  if (new Set(codes).size !== codes.length) {
+    return Either.left(
       new InvalidGameState({
         state: "evaluate",
-        reason: `pokersolver error: ${e instanceof Error ? e.message : String(e)}`,
+        reason: `Duplicate cards: ${cards.map(toPokersolverString).join(" ")}`,
       }),
-  });
+    );
+  }
+  return Either.right(toHandRank(handStrength(codes), cards));
 }
 
 // ---------------------------------------------------------------------------
-// compare — compare two HandRanks using HandRankOrder
+// compare — compare two HandRanks by key
 // ---------------------------------------------------------------------------
 
 export function compare(a: HandRank, b: HandRank): -1 | 0 | 1 {
-  // Fast path: different categories are unambiguous
-  if (a.rank !== b.rank) return HandRankOrder(a, b);
-
-  // Same category: use pokersolver for intra-category comparison (kickers, pair values, etc.)
-  if (a._solved && b._solved) {
-    const ws = PokersolverHand.winners([a._solved, b._solved]);
-    if (ws.length === 2) return 0;
-    return ws[0] === a._solved ? 1 : -1;
-  }
-
-  // Fallback: category-only (for test data without _solved)
-  return 0;
+  return HandRankOrder(a, b);
 }
 
 // ---------------------------------------------------------------------------
@@ -82,16 +306,6 @@ export function compare(a: HandRank, b: HandRank): -1 | 0 | 1 {
 // ---------------------------------------------------------------------------
 
 export function winners(hands: readonly HandRank[]): readonly HandRank[] {
-  if (hands.length === 0) return [];
-
-  // When all hands carry pokersolver objects, delegate to Hand.winners() for full accuracy
-  const solvedObjects = hands.map((h) => h._solved).filter((s) => s != null);
-  if (solvedObjects.length === hands.length) {
-    const psWinners = new Set(PokersolverHand.winners(solvedObjects));
-    return hands.filter((h) => h._solved != null && psWinners.has(h._solved));
-  }
-
-  // Fallback for test data without _solved
   const [first, ...rest] = hands;
   if (first === undefined) return [];
   const best = pipe(
@@ -114,3 +328,227 @@ export function evaluateHoldem(
 ): Either.Either<HandRank, InvalidGameState> {
   return evaluate([...holeCards, ...communityCards]);
 }
+
+// ---------------------------------------------------------------------------
+// evaluateOmaha — exactly two hole cards and three community cards
+// ---------------------------------------------------------------------------
+
+/** Every way to choose `size` items from `items`, preserving order. */
+function combinations<T>(items: readonly T[], size: number): readonly (readonly T[])[] {
+  if (size === 0) return [[]];
+  const [head, ...tail] = items;
+  if (head === undefined || items.length < size) return [];
+  return [
+    ...combinations(tail, size - 1).map((rest) => [head, ...rest]),
+    ...combinations(tail, size),
+  ];
+}
+
+export function evaluateOmaha(
+  holeCards: readonly Card[],
+  communityCards: readonly Card[],
+): Either.Either<HandRank, InvalidGameState> {
+  if (holeCards.length < 2 || communityCards.length < 3) {
+    return Either.left(
+      new InvalidGameState({
+        state: "evaluateOmaha",
+        reason: `Omaha needs at least 2 hole and 3 community cards, got ${holeCards.length} and ${communityCards.length}`,
+      }),
+    );
+  }
+
+  const boardTriples = combinations(communityCards, 3);
+  const candidates: HandRank[] = [];
+  for (const pair of combinations(holeCards, 2)) {
+    for (const triple of boardTriples) {
+      const result = evaluate([...pair, ...triple]);
+      if (Either.isLeft(result)) return result;
+      candidates.push(result.right);
+    }
+  }
+
+  const [best] = winners(candidates);
+  return best === undefined
+    ? Either.left(new InvalidGameState({ state: "evaluateOmaha", reason: "No hand to evaluate" }))
+    : Either.right(best);
+}
+
+// ---------------------------------------------------------------------------
+// evaluateShortDeck — 6+ Hold'em rankings
+// ---------------------------------------------------------------------------
+
+/** Short-deck category order, used only in `key`: a flush beats a full house. */
+const SHORT_DECK_RANK = {
+  "High Card": 1,
+  "Pair": 2,
+  "Two Pair": 3,
+  "Three of a Kind": 4,
+  "Straight": 5,
+  "Full House": 6,
+  "Flush": 7,
+  "Four of a Kind": 8,
+  "Straight Flush": 9,
+} as const;
+
+type ShortDeckHandName = keyof typeof SHORT_DECK_RANK;
+
+const rankChar = (c: Card): string => toPokersolverString(c).charAt(0);
+
+/** High card of a straight, or undefined. A-6-7-8-9 is a straight with the ace low. */
+function straightHigh(ranks: readonly Rank[]): number | undefined {
+  const unique = [...new Set(ranks)].sort((a, b) => b - a);
+  if (unique.length !== 5) return undefined;
+  const [high, , , , low] = unique;
+  if (high === undefined || low === undefined) return undefined;
+  if (high - low === 4) return high;
+  if (high === 14 && unique[1] === 9 && low === 6) return 9;
+  return undefined;
+}
+
+function rankShortDeckFive(cards: readonly Card[]): Either.Either<HandRank, InvalidGameState> {
+  // Group by rank: bigger groups first, then higher ranks
+  const groups = pipe(
+    [...new Set(cards.map((c) => c.rank))],
+    A.map((rank) => cards.filter((c) => c.rank === rank)),
+    A.sort(
+      Order.combine(
+        Order.reverse(Order.mapInput(Order.number, (g: readonly Card[]) => g.length)),
+        Order.reverse(Order.mapInput(Order.number, (g: readonly Card[]) => g[0]?.rank ?? 0)),
+      ),
+    ),
+  );
+  const ordered = groups.flat();
+  const counts = groups.map((g) => g.length);
+  const top = ordered[0];
+  const second = groups[1]?.[0];
+  if (top === undefined) {
+    return Either.left(new InvalidGameState({ state: "evaluateShortDeck", reason: "No cards to evaluate" }));
+  }
+
+  const isFlush = cards.every((c) => c.suit === top.suit);
+  const high = straightHigh(cards.map((c) => c.rank));
+
+  let name: ShortDeckHandName;
+  let description: string;
+  let tiebreak: readonly number[] = ordered.map((c) => c.rank);
+  let bestCards = ordered;
+
+  if (high !== undefined) {
+    // Ace plays low in A-6-7-8-9
+    bestCards = high === 9 && ordered.some((c) => c.rank === 14)
+      ? [...ordered.filter((c) => c.rank !== 14), ...ordered.filter((c) => c.rank === 14)]
+      : ordered;
+    tiebreak = [high];
+    const highCard = bestCards[0] ?? top;
+    if (isFlush) {
+      name = "Straight Flush";
+      description = high === 14 ? "Royal Flush" : `Straight Flush, ${toPokersolverString(highCard)} High`;
+    } else {
+      name = "Straight";
+      description = `Straight, ${rankChar(highCard)} High`;
+    }
+  } else if (counts[0] === 4) {
+    name = "Four of a Kind";
+    description = `Four of a Kind, ${rankChar(top)}'s`;
+  } else if (isFlush) {
+    name = "Flush";
+    description = `Flush, ${toPokersolverString(top)} High`;
+  } else if (counts[0] === 3 && counts[1] === 2) {
+    name = "Full House";
+    description = `Full House, ${rankChar(top)}'s over ${second ? rankChar(second) : ""}'s`;
+  } else if (counts[0] === 3) {
+    name = "Three of a Kind";
+    description = `Three of a Kind, ${rankChar(top)}'s`;
+  } else if (counts[0] === 2 && counts[1] === 2) {
+    name = "Two Pair";
+    description = `Two Pair, ${rankChar(top)}'s & ${second ? rankChar(second) : ""}'s`;
+  } else if (counts[0] === 2) {
+    name = "Pair";
+    description = `Pair, ${rankChar(top)}'s`;
+  } else {
+    name = "High Card";
+    description = `${rankChar(top)} High`;
+  }
+
+  return Either.right({
+    name,
+    description,
+    rank: CATEGORY_NAMES.indexOf(name),
+    bestCards: Object.freeze(bestCards.map(toPokersolverString)),
+    key: [SHORT_DECK_RANK[name], ...tiebreak],
+  });
+}
+
+/**
+ * Evaluate a short-deck (6+) hand: the best five of hole + community cards,
+ * with flushes above full houses and A-6-7-8-9 as the lowest straight.
+ */
+export function evaluateShortDeck(
+  holeCards: readonly Card[],
+  communityCards: readonly Card[],
+): Either.Either<HandRank, InvalidGameState> {
+  const all = [...holeCards, ...communityCards];
+  if (all.length < 5) {
+    return Either.left(
+      new InvalidGameState({
+        state: "evaluateShortDeck",
+        reason: `Need at least 5 cards, got ${all.length}`,
+      }),
+    );
+  }
+  const candidates: HandRank[] = [];
+  for (const five of combinations(all, 5)) {
+    const result = rankShortDeckFive(five);
+    if (Either.isLeft(result)) return result;
+    candidates.push(result.right);
+  }
+
+  const [best] = winners(candidates);
+  return best === undefined
+    ? Either.left(new InvalidGameState({ state: "evaluateShortDeck", reason: "No hand to evaluate" }))
+    : Either.right(best);
+}
+
+// ---------------------------------------------------------------------------
+// evaluateOmahaLow — eight-or-better low for Omaha Hi/Lo
+// ---------------------------------------------------------------------------
+
+/** Ace plays low; returns the five low ranks high-to-low, or none if they don't qualify. */
+function eightOrBetter(cards: readonly Card[]): Option.Option<readonly number[]> {
+  const lows = [...new Set(cards.map((c) => (c.rank === 14 ? 1 : c.rank)))].sort((a, b) => b - a);
+  return lows.length === 5 && lows.every((r) => r <= 8) ? Option.some(lows) : Option.none();
+}
+
+/**
+ * Best eight-or-better low using exactly two hole and three community cards.
+ * Returns none when no low qualifies. A lower low compares as the better hand.
+ */
+export function evaluateOmahaLow(
+  holeCards: readonly Card[],
+  communityCards: readonly Card[],
+): Option.Option<HandRank> {
+  const boardTriples = combinations(communityCards, 3);
+  const lows: HandRank[] = [];
+  for (const pair of combinations(holeCards, 2)) {
+    for (const triple of boardTriples) {
+      const five = [...pair, ...triple];
+      const qualified = eightOrBetter(five);
+      if (Option.isNone(qualified)) continue;
+      const ranks = qualified.value;
+      const byRank = (r: number) => five.find((c) => (c.rank === 14 ? 1 : c.rank) === r);
+      lows.push({
+        name: "Low",
+        description: `${ranks.map((r) => (r === 1 ? "A" : String(r))).join("-")} Low`,
+        rank: 0,
+        bestCards: Object.freeze(
+          ranks.flatMap((r) => {
+            const c = byRank(r);
+            return c === undefined ? [] : [toPokersolverString(c)];
+          }),
+        ),
+        key: [0, ...ranks.map((r) => -r)],
+      });
+    }
+  }
+  return Option.fromNullable(winners(lows)[0]);
+}
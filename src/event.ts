@@ -9,27 +9,40 @@
  */
 
 import { Data } from "effect";
-import type { Chips, SeatIndex, HandId } from "./brand";
+import type { Chips, SeatIndex, HandId, PlayerId } from "./brand";
 import type { Card } from "./card";
 import type { Action } from "./action";
+import type { AnteMode, ForcedBets } from "./stakes";
 
 // ---------------------------------------------------------------------------
 // GameEvent — Data.TaggedEnum (type-level) + Data.tagged (constructors)
 // ---------------------------------------------------------------------------
 
 export type GameEvent = Data.TaggedEnum<{
-  HandStarted: { readonly handId: HandId; readonly button: SeatIndex; readonly smallBlind: SeatIndex; readonly bigBlind: SeatIndex; readonly players: readonly SeatIndex[] };
-  BlindsPosted: { readonly smallBlind: { readonly seat: SeatIndex; readonly amount: Chips }; readonly bigBlind: { readonly seat: SeatIndex; readonly amount: Chips } };
+  HandStarted: { readonly handId: HandId; readonly button: SeatIndex; readonly smallBlind?: SeatIndex; readonly bigBlind?: SeatIndex; readonly players: readonly SeatIndex[] };
+  AntesPosted: { readonly mode: AnteMode; readonly antes: readonly { readonly seat: SeatIndex; readonly amount: Chips }[] };
+  BlindsPosted: { readonly smallBlind?: { readonly seat: SeatIndex; readonly amount: Chips }; readonly bigBlind: { readonly seat: SeatIndex; readonly amount: Chips } };
+  MissedBlindsPosted: { readonly seat: SeatIndex; readonly dead: Chips; readonly live: Chips };
+  StraddlePosted: { readonly seat: SeatIndex; readonly amount: Chips };
+  BombPotPosted: { readonly antes: readonly { readonly seat: SeatIndex; readonly amount: Chips }[]; readonly doubleBoard: boolean };
   HoleCardsDealt: { readonly seat: SeatIndex };
   PlayerActed: { readonly seat: SeatIndex; readonly action: Action };
+  UncalledBetReturned: { readonly seat: SeatIndex; readonly amount: Chips };
   BettingRoundEnded: { readonly round: string };
-  CommunityCardsDealt: { readonly cards: readonly Card[]; readonly phase: string };
+  CommunityCardsDealt: { readonly cards: readonly Card[]; readonly phase: string; readonly board: number };
+  RakeTaken: { readonly amount: Chips };
   ShowdownStarted: {};
-  PlayerRevealed: { readonly seat: SeatIndex; readonly holeCards: readonly [Card, Card]; readonly handDescription: string; readonly handRank: number };
-  PotAwarded: { readonly seat: SeatIndex; readonly amount: Chips; readonly potIndex: number; readonly handDescription: string; readonly bestCards: readonly string[] };
+  RunItAgreed: { readonly times: number; readonly seats: readonly SeatIndex[] };
+  RunoutDealt: { readonly run: number; readonly cards: readonly Card[]; readonly board: readonly Card[] };
+  PlayerRevealed: { readonly seat: SeatIndex; readonly holeCards: readonly Card[]; readonly handDescription: string; readonly handRank: number; readonly handKey: readonly number[]; readonly run?: number; readonly board?: number };
+  PotAwarded: { readonly seat: SeatIndex; readonly amount: Chips; readonly potIndex: number; readonly half: "High" | "Low"; readonly handDescription: string; readonly bestCards: readonly string[]; readonly run?: number; readonly board?: number };
   HandEnded: {};
-  PlayerSatDown: { readonly seat: SeatIndex; readonly chips: Chips };
+  PlayerSatDown: { readonly seat: SeatIndex; readonly chips: Chips; readonly playerId?: PlayerId };
   PlayerStoodUp: { readonly seat: SeatIndex };
+  PlayerSatOut: { readonly seat: SeatIndex };
+  PlayerSatIn: { readonly seat: SeatIndex };
+  ChipsAdded: { readonly seat: SeatIndex; readonly amount: Chips; readonly chips: Chips };
+  BlindLevelChanged: { readonly level: number; readonly forcedBets: ForcedBets };
 }>;
 
 // ---------------------------------------------------------------------------
@@ -37,14 +50,26 @@ export type GameEvent = Data.TaggedEnum<{
 // ---------------------------------------------------------------------------
 
 export const HandStarted = Data.tagged<Extract<GameEvent, { _tag: "HandStarted" }>>("HandStarted");
+export const AntesPosted = Data.tagged<Extract<GameEvent, { _tag: "AntesPosted" }>>("AntesPosted");
 export const BlindsPosted = Data.tagged<Extract<GameEvent, { _tag: "BlindsPosted" }>>("BlindsPosted");
+export const MissedBlindsPosted = Data.tagged<Extract<GameEvent, { _tag: "MissedBlindsPosted" }>>("MissedBlindsPosted");
+export const StraddlePosted = Data.tagged<Extract<GameEvent, { _tag: "StraddlePosted" }>>("StraddlePosted");
+export const BombPotPosted = Data.tagged<Extract<GameEvent, { _tag: "BombPotPosted" }>>("BombPotPosted");
 export const HoleCardsDealt = Data.tagged<Extract<GameEvent, { _tag: "HoleCardsDealt" }>>("HoleCardsDealt");
 export const PlayerActed = Data.tagged<Extract<GameEvent, { _tag: "PlayerActed" }>>("PlayerActed");
+export const UncalledBetReturned = Data.tagged<Extract<GameEvent, { _tag: "UncalledBetReturned" }>>("UncalledBetReturned");
 export const BettingRoundEnded = Data.tagged<Extract<GameEvent, { _tag: "BettingRoundEnded" }>>("BettingRoundEnded");
 export const CommunityCardsDealt = Data.tagged<Extract<GameEvent, { _tag: "CommunityCardsDealt" }>>("CommunityCardsDealt");
+export const RakeTaken = Data.tagged<Extract<GameEvent, { _tag: "RakeTaken" }>>("RakeTaken");
 export const ShowdownStarted = Data.tagged<Extract<GameEvent, { _tag: "ShowdownStarted" }>>("ShowdownStarted")();
+export const RunItAgreed = Data.tagged<Extract<GameEvent, { _tag: "RunItAgreed" }>>("RunItAgreed");
+export const RunoutDealt = Data.tagged<Extract<GameEvent, { _tag: "RunoutDealt" }>>("RunoutDealt");
 export const PlayerRevealed = Data.tagged<Extract<GameEvent, { _tag: "PlayerRevealed" }>>("PlayerRevealed");
 export const PotAwarded = Data.tagged<Extract<GameEvent, { _tag: "PotAwarded" }>>("PotAwarded");
 export const HandEnded = Data.tagged<Extract<GameEvent, { _tag: "HandEnded" }>>("HandEnded")();
 export const PlayerSatDown = Data.tagged<Extract<GameEvent, { _tag: "PlayerSatDown" }>>("PlayerSatDown");
 export const PlayerStoodUp = Data.tagged<Extract<GameEvent, { _tag: "PlayerStoodUp" }>>("PlayerStoodUp");
+export const PlayerSatOut = Data.tagged<Extract<GameEvent, { _tag: "PlayerSatOut" }>>("PlayerSatOut");
+export const PlayerSatIn = Data.tagged<Extract<GameEvent, { _tag: "PlayerSatIn" }>>("PlayerSatIn");
+export const ChipsAdded = Data.tagged<Extract<GameEvent, { _tag: "ChipsAdded" }>>("ChipsAdded");
+export const BlindLevelChanged = Data.tagged<Extract<GameEvent, { _tag: "BlindLevelChanged" }>>("BlindLevelChanged");
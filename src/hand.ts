@@ -9,24 +9,39 @@ import { Array as A, Effect, Either, HashMap, Option, pipe } from "effect";
 import type { Chips, SeatIndex, HandId } from "./brand";
 import {
   ZERO_CHIPS,
+  addChips,
   minChips,
+  maxChips,
+  chipsToNumber,
+  seatIndexToNumber,
   SeatIndexOrder,
 } from "./brand";
 import type { Card } from "./card";
 import type { Deck } from "./deck";
-import { shuffled, dealHoleCards, dealFlop, dealOne } from "./deck";
+import { shuffle, dealHoleCards, dealFlop, dealOne } from "./deck";
 import type { HandRank } from "./evaluator";
-import { evaluateHoldem } from "./evaluator";
+import type { Variant } from "./variant";
+import { variantRules } from "./variant";
 import type { Player } from "./player";
-import { placeBet, winChips, collectBet, dealCards, canAct } from "./player";
-import type { Action, LegalActions } from "./action";
+import { placeBet, postAnte, returnBet, winChips, collectBet, dealCards, canAct } from "./player";
+import type { Action, BettingStructure, LegalActions } from "./action";
 import type { GameEvent } from "./event";
+import type { AnteMode, ForcedBets } from "./stakes";
+export type { AnteMode, ForcedBets } from "./stakes";
 import {
   HandStarted,
+  AntesPosted,
   BlindsPosted,
+  MissedBlindsPosted,
+  StraddlePosted,
+  BombPotPosted,
   HoleCardsDealt,
+  RunItAgreed,
+  RunoutDealt,
+  UncalledBetReturned,
   BettingRoundEnded,
   CommunityCardsDealt,
+  RakeTaken,
   ShowdownStarted,
   PlayerRevealed,
   PotAwarded,
@@ -34,10 +49,21 @@ import {
 } from "./event";
 import type { PokerError } from "./error";
 import { InvalidGameState } from "./error";
-import type { Pot } from "./pot";
-import { collectBets, awardPots, clockwiseOrder } from "./pot";
+import type { AnteContribution, Pot, Rake } from "./pot";
+import {
+  addDeadMoney,
+  collectAntes,
+  collectBets,
+  uncalledBet,
+  awardPots,
+  clockwiseOrder,
+  splitPots,
+  takeRake,
+  totalPotSize,
+} from "./pot";
 import type { BettingRoundState } from "./betting";
 import {
+  DEFAULT_RAISE_CAP,
   createBettingRound,
   applyAction as bettingApplyAction,
   getLegalActions as bettingGetLegalActions,
@@ -45,13 +71,80 @@ import {
 } from "./betting";
 
 // ---------------------------------------------------------------------------
-// ForcedBets
+// Straddle
+// ---------------------------------------------------------------------------
+
+/**
+ * Where a voluntary straddle is posted: under the gun (the seat after the big
+ * blind), or on the button (Mississippi straddle, action starts with the SB).
+ */
+export type StraddlePosition = "UTG" | "Button";
+
+export interface Straddle {
+  readonly position: StraddlePosition;
+  readonly amount: Chips;
+}
+
+// ---------------------------------------------------------------------------
+// BombPot
 // ---------------------------------------------------------------------------
 
-export interface ForcedBets {
-  readonly smallBlind: Chips;
-  readonly bigBlind: Chips;
-  readonly ante?: Chips;
+/**
+ * A bomb pot: every player antes `ante`, there are no blinds and no preflop
+ * betting, and the hand starts on the flop. With `doubleBoard`, it is also
+ * played on two boards (see `HandOptions.doubleBoard`).
+ */
+export interface BombPot {
+  readonly ante: Chips;
+  readonly doubleBoard?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Dead button
+// ---------------------------------------------------------------------------
+
+/**
+ * Blind seats chosen by the caller under dead-button rules. Without a
+ * `smallBlind` the small blind is dead and nobody posts it.
+ */
+export interface BlindSeats {
+  readonly smallBlind?: SeatIndex;
+  readonly bigBlind: SeatIndex;
+}
+
+/** Blinds a returning player missed while away from the table. */
+export interface MissedBlinds {
+  readonly smallBlind: boolean;
+  readonly bigBlind: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// HandOptions — per-hand settings beyond the forced bets
+// ---------------------------------------------------------------------------
+
+export interface HandOptions {
+  /** Game played this hand. Defaults to `"Holdem"`. */
+  readonly variant?: Variant;
+  /** Voluntary blind posted this hand. Ignored heads-up. */
+  readonly straddle?: Straddle;
+  /** Bet sizing rules. Defaults to the variant's structure. */
+  readonly bettingStructure?: BettingStructure;
+  /** Fixed-limit raises allowed per street while 3+ players remain. Defaults to `DEFAULT_RAISE_CAP`. */
+  readonly raiseCap?: number;
+  /** Most boards an all-in runout may be dealt. Defaults to 1 (run it once). */
+  readonly maxRunouts?: number;
+  /** How many times each seat agrees to run it; seats not listed run it once. */
+  readonly runItTimes?: HashMap.HashMap<SeatIndex, number>;
+  /** Deal two boards, each taking half of every pot. */
+  readonly doubleBoard?: boolean;
+  /** Play this hand as a bomb pot. Replaces blinds, antes and any straddle. */
+  readonly bombPot?: BombPot;
+  /** House rake taken from the pots before they are awarded. */
+  readonly rake?: Rake;
+  /** Explicit blind seats (3+ players). Defaults to the seats after the button. */
+  readonly blinds?: BlindSeats;
+  /** Players posting missed blinds to be dealt in: a dead small blind and a live big blind. */
+  readonly missedBlinds?: HashMap.HashMap<SeatIndex, MissedBlinds>;
 }
 
 // ---------------------------------------------------------------------------
@@ -68,12 +161,26 @@ export interface HandState {
   readonly handId: HandId;
   readonly phase: Phase;
   readonly players: readonly Player[];
-  readonly communityCards: readonly Card[];
   readonly deck: Deck;
   readonly pots: readonly Pot[];
   readonly bettingRound: Option.Option<BettingRoundState>;
+  /** Button seat; may be an empty seat under dead-button rules. */
   readonly button: SeatIndex;
+  readonly smallBlindSeat: Option.Option<SeatIndex>;
+  readonly bigBlindSeat: SeatIndex;
   readonly forcedBets: ForcedBets;
+  readonly variant: Variant;
+  readonly bettingStructure: BettingStructure;
+  readonly raiseCap: number;
+  readonly maxRunouts: number;
+  readonly runItTimes: HashMap.HashMap<SeatIndex, number>;
+  /** Every board dealt when an all-in runout was run more than once; empty otherwise. */
+  readonly runouts: readonly (readonly Card[])[];
+  /** Community cards of every board in play; `getCommunityCards` reads board one. */
+  readonly boards: readonly (readonly Card[])[];
+  readonly rake: Option.Option<Rake>;
+  /** Chips raked from this hand's pots. */
+  readonly rakeTaken: Chips;
   readonly events: readonly GameEvent[];
   readonly seatOrder: readonly SeatIndex[];
   readonly lastAggressor: Option.Option<SeatIndex>;
@@ -96,10 +203,15 @@ export function getPositionalSeatOrder(
 
   if (activeSeats.length === 0) return [];
 
+  // A dead button sits on an empty seat: the player before it acts last
   const btnIdx = activeSeats.indexOf(button);
-  if (btnIdx === -1) return activeSeats;
+  const afterIdx = activeSeats.findIndex((s) => seatIndexToNumber(s) > seatIndexToNumber(button));
+  const firstAfter = afterIdx === -1 ? 0 : afterIdx;
+  const startIdx = btnIdx !== -1
+    ? btnIdx
+    : (firstAfter + activeSeats.length - 1) % activeSeats.length;
 
-  return [...activeSeats.slice(btnIdx), ...activeSeats.slice(0, btnIdx)];
+  return [...activeSeats.slice(startIdx), ...activeSeats.slice(0, startIdx)];
 }
 
 export function getFirstToActPostflop(
@@ -118,9 +230,11 @@ export function getFirstToActPostflop(
     }
   }
 
-  const btnPlayer = players.find((p) => p.seatIndex === button);
-  if (btnPlayer && canAct(btnPlayer)) {
-    return Option.some(button);
+  // The button acts last; with a dead button, the seat before it does
+  const lastSeat = seatOrder.includes(button) ? button : unsafeGet(seatOrder, 0, "getFirstToActPostflop");
+  const lastPlayer = players.find((p) => p.seatIndex === lastSeat);
+  if (lastPlayer && canAct(lastPlayer)) {
+    return Option.some(lastSeat);
   }
 
   return Option.none();
@@ -149,6 +263,28 @@ function activePlayers(players: readonly Player[]): readonly Player[] {
   return players.filter((p) => !p.isFolded);
 }
 
+/** Small blind seat: the button heads-up, otherwise the seat after it. */
+function sbSeat(seatOrder: readonly SeatIndex[]): SeatIndex {
+  return seatOrder.length === 2
+    ? unsafeGet(seatOrder, 0, "sbSeat:headsUp")
+    : unsafeGet(seatOrder, 1, "sbSeat");
+}
+
+/** Big blind seat: the non-button seat heads-up, otherwise two after the button. */
+function bbSeat(seatOrder: readonly SeatIndex[]): SeatIndex {
+  return seatOrder.length === 2
+    ? unsafeGet(seatOrder, 1, "bbSeat:headsUp")
+    : unsafeGet(seatOrder, 2, "bbSeat");
+}
+
+/** Minimum bet for a postflop street: fixed-limit doubles it on the turn and river. */
+function streetBetSize(state: HandState, phase: "Flop" | "Turn" | "River"): Chips {
+  const { bigBlind } = state.forcedBets;
+  return state.bettingStructure === "FixedLimit" && phase !== "Flop"
+    ? addChips(bigBlind, bigBlind)
+    : bigBlind;
+}
+
 /** Index into an array with a descriptive crash instead of silent undefined. */
 function unsafeGet<T>(arr: readonly T[], idx: number, context: string): T {
   const val = arr[idx];
@@ -167,6 +303,7 @@ export function startHand(
   button: SeatIndex,
   forcedBets: ForcedBets,
   handId: HandId,
+  options: HandOptions = {},
 ): Effect.Effect<HandState, PokerError> {
   return Effect.gen(function* () {
     const seatOrder = getPositionalSeatOrder(players, button);
@@ -180,9 +317,23 @@ export function startHand(
       );
     }
 
-    const deck = yield* shuffled;
+    if (
+      options.maxRunouts !== undefined &&
+      !(Number.isInteger(options.maxRunouts) && options.maxRunouts >= 1)
+    ) {
+      return yield* Effect.fail(
+        new InvalidGameState({
+          state: "startHand",
+          reason: `maxRunouts must be a positive integer, got ${options.maxRunouts}`,
+        }),
+      );
+    }
+
+    const variant = options.variant ?? "Holdem";
+    const rules = variantRules(variant);
+    const deck = yield* shuffle(rules.cards);
 
-    const dealResult = dealHoleCards(deck, seatOrder);
+    const dealResult = dealHoleCards(deck, seatOrder, rules.holeCardCount);
     if (Either.isLeft(dealResult)) {
       return yield* Effect.fail(
         new InvalidGameState({
@@ -201,85 +352,254 @@ export function startHand(
       (acc, cards, seat) => updatePlayer(acc, seat, (p) => dealCards(p, cards)),
     );
 
-    const events: GameEvent[] = [];
+    // Blind seats: chosen by the caller under dead-button rules, otherwise after the button
+    const blinds = options.blinds;
+    if (blinds !== undefined) {
+      const seated = (seat: SeatIndex | undefined) => seat === undefined || seatOrder.includes(seat);
+      if (seatOrder.length < 3 || !seated(blinds.bigBlind) || !seated(blinds.smallBlind) || blinds.smallBlind === blinds.bigBlind) {
+        return yield* Effect.fail(
+          new InvalidGameState({
+            state: "startHand",
+            reason: "Explicit blind seats need 3+ players and two different dealt-in seats",
+          }),
+        );
+      }
+    }
+    const smallBlindSeat = blinds !== undefined
+      ? Option.fromNullable(blinds.smallBlind)
+      : Option.some(sbSeat(seatOrder));
+    const bigBlindSeat = blinds !== undefined ? blinds.bigBlind : bbSeat(seatOrder);
+
+    const events: GameEvent[] = [
+      HandStarted({
+        handId,
+        button,
+        // A bomb pot posts no blinds, so it names no blind seats
+        ...(options.bombPot === undefined && Option.isSome(smallBlindSeat) ? { smallBlind: smallBlindSeat.value } : {}),
+        ...(options.bombPot === undefined ? { bigBlind: bigBlindSeat } : {}),
+        players: seatOrder,
+      }),
+    ];
     const isHeadsUp = seatOrder.length === 2;
+    const handSettings = {
+      smallBlindSeat,
+      bigBlindSeat,
+      variant,
+      bettingStructure: options.bettingStructure ?? rules.defaultBettingStructure,
+      raiseCap: options.raiseCap ?? DEFAULT_RAISE_CAP,
+      maxRunouts: options.maxRunouts ?? 1,
+      runItTimes: options.runItTimes ?? HashMap.empty<SeatIndex, number>(),
+      runouts: [],
+      rake: Option.fromNullable(options.rake),
+      rakeTaken: ZERO_CHIPS,
+    };
+    const emptyBoards = (doubleBoard: boolean): readonly (readonly Card[])[] =>
+      doubleBoard ? [[], []] : [[]];
+
+    // Bomb pot: everyone antes, no blinds and no preflop betting — straight to the flop
+    if (options.bombPot !== undefined) {
+      const doubleBoard = options.bombPot.doubleBoard === true || options.doubleBoard === true;
+      const posted = postAntes(currentPlayers, seatOrder, { ...forcedBets, ante: options.bombPot.ante });
+      events.push(
+        BombPotPosted({
+          antes: posted.antes.map((a) => ({ seat: a.seatIndex, amount: a.amount })),
+          doubleBoard,
+        }),
+      );
+      for (const seat of seatOrder) {
+        events.push(HoleCardsDealt({ seat }));
+      }
 
-    let sbSeat: SeatIndex;
-    let bbSeat: SeatIndex;
+      const bombState: HandState = {
+        handId,
+        phase: "Preflop",
+        players: posted.players,
+        deck: deckAfterDeal,
+        pots: collectAntes(posted.antes, []),
+        bettingRound: Option.none(),
+        button,
+        forcedBets,
+        ...handSettings,
+        boards: emptyBoards(doubleBoard),
+        events,
+        seatOrder,
+        lastAggressor: Option.none(),
+      };
+      const canAnyoneAct = posted.players.filter(canAct).length >= 2;
+      return yield* dealAndStartRound(bombState, "Flop", canAnyoneAct);
+    }
 
-    if (isHeadsUp) {
-      sbSeat = unsafeGet(seatOrder, 0, "startHand:headsUp:sb");
-      bbSeat = unsafeGet(seatOrder, 1, "startHand:headsUp:bb");
-    } else {
-      sbSeat = unsafeGet(seatOrder, 1, "startHand:sb");
-      bbSeat = unsafeGet(seatOrder, 2, "startHand:bb");
+    const anteMode: AnteMode = forcedBets.anteMode ?? "PerPlayer";
+    const hasAnte = chipsToNumber(forcedBets.ante ?? ZERO_CHIPS) > 0;
+    let pots: readonly Pot[] = [];
+
+    // Per-player antes are posted before the blinds
+    if (hasAnte && anteMode === "PerPlayer") {
+      const posted = postAntes(currentPlayers, seatOrder, forcedBets);
+      currentPlayers = posted.players;
+      pots = collectAntes(posted.antes, pots);
+      events.push(posted.event);
     }
 
-    // Post small blind
-    const sbPlayer = findPlayer(currentPlayers, sbSeat);
-    if (sbPlayer === undefined) {
-      return yield* Effect.fail(
-        new InvalidGameState({ state: "startHand", reason: `SB player at seat ${sbSeat} not found` }),
-      );
+    // Post small blind, unless it is dead
+    let smallBlindPost: { readonly seat: SeatIndex; readonly amount: Chips } | undefined;
+    if (Option.isSome(smallBlindSeat)) {
+      const sbPlayer = findPlayer(currentPlayers, smallBlindSeat.value);
+      if (sbPlayer === undefined) {
+        return yield* Effect.fail(
+          new InvalidGameState({ state: "startHand", reason: `SB player at seat ${smallBlindSeat.value} not found` }),
+        );
+      }
+      const sbAmount = minChips(forcedBets.smallBlind, sbPlayer.chips);
+      currentPlayers = updatePlayer(currentPlayers, smallBlindSeat.value, (p) => placeBet(p, sbAmount));
+      smallBlindPost = { seat: smallBlindSeat.value, amount: sbAmount };
     }
-    const sbAmount = minChips(forcedBets.smallBlind, sbPlayer.chips);
-    currentPlayers = updatePlayer(currentPlayers, sbSeat, (p) => placeBet(p, sbAmount));
 
     // Post big blind
-    const bbPlayer = findPlayer(currentPlayers, bbSeat);
+    const bbPlayer = findPlayer(currentPlayers, bigBlindSeat);
     if (bbPlayer === undefined) {
       return yield* Effect.fail(
-        new InvalidGameState({ state: "startHand", reason: `BB player at seat ${bbSeat} not found` }),
+        new InvalidGameState({ state: "startHand", reason: `BB player at seat ${bigBlindSeat} not found` }),
       );
     }
     const bbAmount = minChips(forcedBets.bigBlind, bbPlayer.chips);
-    currentPlayers = updatePlayer(currentPlayers, bbSeat, (p) => placeBet(p, bbAmount));
+    currentPlayers = updatePlayer(currentPlayers, bigBlindSeat, (p) => placeBet(p, bbAmount));
 
-    events.push(HandStarted({ handId, button, smallBlind: sbSeat, bigBlind: bbSeat, players: seatOrder }));
     events.push(
       BlindsPosted({
-        smallBlind: { seat: sbSeat, amount: sbAmount },
-        bigBlind: { seat: bbSeat, amount: bbAmount },
+        ...(smallBlindPost !== undefined ? { smallBlind: smallBlindPost } : {}),
+        bigBlind: { seat: bigBlindSeat, amount: bbAmount },
       }),
     );
+    let biggestBet = bbAmount;
+
+    // Returning players post what they missed: a dead small blind and a live big blind
+    const missedBlinds = options.missedBlinds ?? HashMap.empty<SeatIndex, MissedBlinds>();
+    for (const seat of seatOrder) {
+      const missed = HashMap.get(missedBlinds, seat);
+      const player = findPlayer(currentPlayers, seat);
+      const onBlind = seat === bigBlindSeat || Option.contains(smallBlindSeat, seat);
+      if (Option.isNone(missed) || player === undefined || onBlind) continue;
+
+      const dead = missed.value.smallBlind ? minChips(forcedBets.smallBlind, player.chips) : ZERO_CHIPS;
+      const afterDead = postAnte(player, dead);
+      const live = missed.value.bigBlind ? minChips(forcedBets.bigBlind, afterDead.chips) : ZERO_CHIPS;
+      currentPlayers = updatePlayer(currentPlayers, seat, () => placeBet(afterDead, live));
+      pots = addDeadMoney(pots, dead, seatOrder);
+      biggestBet = maxChips(biggestBet, live);
+      events.push(MissedBlindsPosted({ seat, dead, live }));
+    }
+
+    // Big-blind ante: blind before ante, and the whole table can win it
+    if (hasAnte && anteMode === "BigBlind") {
+      const posted = postAntes(currentPlayers, [bigBlindSeat], forcedBets);
+      currentPlayers = posted.players;
+      const total = posted.antes.reduce((sum, a) => addChips(sum, a.amount), ZERO_CHIPS);
+      pots = addDeadMoney(pots, total, seatOrder);
+      events.push(posted.event);
+    }
+
+    // Post straddle — a live blind that buys the last preflop action
+    let lastBlindSeat = bigBlindSeat;
+    let minRaise = forcedBets.bigBlind;
+    let raiseCount = 0;
+    if (options.straddle !== undefined && !isHeadsUp) {
+      const bbIdx = seatOrder.indexOf(bigBlindSeat);
+      const straddleSeat = options.straddle.position === "Button"
+        ? unsafeGet(seatOrder, 0, "startHand:straddle:button")
+        : unsafeGet(seatOrder, (bbIdx + 1) % seatOrder.length, "startHand:straddle:utg");
+      const straddler = findPlayer(currentPlayers, straddleSeat);
+      // A seat that already posted a missed big blind doesn't straddle on top of it
+      if (straddler !== undefined && chipsToNumber(straddler.chips) > 0 && chipsToNumber(straddler.currentBet) === 0) {
+        const straddleAmount = minChips(options.straddle.amount, straddler.chips);
+        currentPlayers = updatePlayer(currentPlayers, straddleSeat, (p) => placeBet(p, straddleAmount));
+        events.push(StraddlePosted({ seat: straddleSeat, amount: straddleAmount }));
+        lastBlindSeat = straddleSeat;
+        biggestBet = maxChips(biggestBet, straddleAmount);
+        minRaise = options.straddle.amount;
+        raiseCount = 1;
+      }
+    }
 
     for (const seat of seatOrder) {
       events.push(HoleCardsDealt({ seat }));
     }
 
-    // Create preflop betting round
+    // Create preflop betting round — action starts after the last live blind
     let firstToAct: SeatIndex;
     if (isHeadsUp) {
       firstToAct = unsafeGet(seatOrder, 0, "startHand:firstToAct:headsUp");
     } else {
-      const bbIdx = seatOrder.indexOf(bbSeat);
-      firstToAct = unsafeGet(seatOrder, (bbIdx + 1) % seatOrder.length, "startHand:firstToAct");
+      const lastBlindIdx = seatOrder.indexOf(lastBlindSeat);
+      firstToAct = unsafeGet(seatOrder, (lastBlindIdx + 1) % seatOrder.length, "startHand:firstToAct");
     }
 
     const bettingRound = createBettingRound(
       "Preflop",
       currentPlayers,
       firstToAct,
-      bbAmount,
-      forcedBets.bigBlind,
+      biggestBet,
+      minRaise,
+      {
+        structure: handSettings.bettingStructure,
+        collectedPot: totalPotSize(pots),
+        raiseCount,
+        raiseCap: handSettings.raiseCap,
+      },
     );
 
     const phase: Phase = "Preflop";
-    return {
+    const state: HandState = {
       handId,
       phase,
       players: currentPlayers,
-      communityCards: [],
       deck: deckAfterDeal,
-      pots: [],
+      pots,
       bettingRound: Option.some(bettingRound),
       button,
       forcedBets,
+      ...handSettings,
+      boards: emptyBoards(options.doubleBoard === true),
       events,
       seatOrder,
       lastAggressor: Option.none(),
     };
+
+    // Forced bets can leave nobody able to act (e.g. everyone all-in on the ante)
+    if (bettingRound.isComplete) {
+      return yield* advancePhase(state);
+    }
+    return state;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// postAntes (internal)
+// ---------------------------------------------------------------------------
+
+function postAntes(
+  players: readonly Player[],
+  payers: readonly SeatIndex[],
+  forcedBets: ForcedBets,
+): { players: readonly Player[]; antes: readonly AnteContribution[]; event: GameEvent } {
+  const ante = forcedBets.ante ?? ZERO_CHIPS;
+  let currentPlayers = players;
+  const antes: AnteContribution[] = [];
+
+  for (const seat of payers) {
+    const player = findPlayer(currentPlayers, seat);
+    if (player === undefined) continue;
+    const amount = minChips(ante, player.chips);
+    const updated = postAnte(player, amount);
+    currentPlayers = updatePlayer(currentPlayers, seat, () => updated);
+    antes.push({ seatIndex: seat, amount, isAllIn: updated.isAllIn });
+  }
+
+  const event = AntesPosted({
+    mode: forcedBets.anteMode ?? "PerPlayer",
+    antes: antes.map((a) => ({ seat: a.seatIndex, amount: a.amount })),
   });
+  return { players: currentPlayers, antes, event };
 }
 
 // ---------------------------------------------------------------------------
@@ -336,10 +656,20 @@ function advancePhase(state: HandState): Either.Either<HandState, PokerError> {
     ? state.bettingRound.value.name
     : state.phase;
 
-  const collected = collectBets(state.players, state.pots);
+  // Return the uncalled part of the largest bet before building pots
+  const uncalled = uncalledBet(state.players);
+  const newEvents: GameEvent[] = [];
+  let players = state.players;
+  if (Option.isSome(uncalled)) {
+    const { seat, amount } = uncalled.value;
+    players = updatePlayer(players, seat, (p) => returnBet(p, amount));
+    newEvents.push(UncalledBetReturned({ seat, amount }));
+  }
+
+  const collected = collectBets(players, state.pots);
 
   const playersAfterCollect: readonly Player[] = pipe(
-    state.players,
+    players,
     A.map((p): Player => {
       const bp = collected.players.find((cp) => cp.seatIndex === p.seatIndex);
       if (!bp) return p;
@@ -357,7 +687,7 @@ function advancePhase(state: HandState): Either.Either<HandState, PokerError> {
   const roundAggressor = pipe(state.bettingRound, Option.flatMap(br => br.lastAggressor));
   const newLastAggressor = Option.isSome(roundAggressor) ? roundAggressor : state.lastAggressor;
 
-  const newEvents: GameEvent[] = [BettingRoundEnded({ round: roundName })];
+  newEvents.push(BettingRoundEnded({ round: roundName }));
 
   const baseState: HandState = {
     ...state,
@@ -373,9 +703,14 @@ function advancePhase(state: HandState): Either.Either<HandState, PokerError> {
     return awardToLastPlayer(baseState);
   }
 
-  const canAnyoneAct = playersReset.some((p) => canAct(p));
+  // Betting needs two players with chips behind; otherwise run the board out
+  const canAnyoneAct = playersReset.filter(canAct).length >= 2;
 
   const { phase } = state;
+  if (!canAnyoneAct && phase !== "River") {
+    const times = agreedRunouts(baseState);
+    if (times > 1) return runItMultiple(baseState, times);
+  }
   if (phase === "Preflop") return dealAndStartRound(baseState, "Flop", canAnyoneAct);
   if (phase === "Flop") return dealAndStartRound(baseState, "Turn", canAnyoneAct);
   if (phase === "Turn") return dealAndStartRound(baseState, "River", canAnyoneAct);
@@ -389,43 +724,53 @@ function advancePhase(state: HandState): Either.Either<HandState, PokerError> {
 // dealAndStartRound (internal)
 // ---------------------------------------------------------------------------
 
+/** Burn and deal one street: three cards on the flop, one on the turn or river. */
+function dealStreet(
+  deck: Deck,
+  phase: "Flop" | "Turn" | "River",
+): Either.Either<[readonly Card[], Deck], PokerError> {
+  if (phase === "Flop") {
+    const flopResult = dealFlop(deck);
+    if (Either.isLeft(flopResult)) {
+      return Either.left(
+        new InvalidGameState({ state: phase, reason: "Deck exhausted during flop deal" }),
+      );
+    }
+    return Either.right(flopResult.right);
+  }
+  const oneResult = dealOne(deck);
+  if (Either.isLeft(oneResult)) {
+    return Either.left(
+      new InvalidGameState({ state: phase, reason: "Deck exhausted during deal" }),
+    );
+  }
+  const [cardDealt, remaining] = oneResult.right;
+  return Either.right([[cardDealt], remaining]);
+}
+
 function dealAndStartRound(
   state: HandState,
   nextPhase: "Flop" | "Turn" | "River",
   canAnyoneAct: boolean,
 ): Either.Either<HandState, PokerError> {
-  let newCommunityCards: readonly Card[];
-  let remainingDeck: Deck;
   const dealEvents: GameEvent[] = [];
 
-  if (nextPhase === "Flop") {
-    const flopResult = dealFlop(state.deck);
-    if (Either.isLeft(flopResult)) {
-      return Either.left(
-        new InvalidGameState({ state: nextPhase, reason: "Deck exhausted during flop deal" }),
-      );
-    }
-    const [flop, deck] = flopResult.right;
-    newCommunityCards = [...state.communityCards, ...flop];
-    remainingDeck = deck;
-    dealEvents.push(CommunityCardsDealt({ cards: flop, phase: "Flop" }));
-  } else {
-    const oneResult = dealOne(state.deck);
-    if (Either.isLeft(oneResult)) {
-      return Either.left(
-        new InvalidGameState({ state: nextPhase, reason: "Deck exhausted during deal" }),
-      );
-    }
-    const [cardDealt, deck] = oneResult.right;
-    newCommunityCards = [...state.communityCards, cardDealt];
-    remainingDeck = deck;
-    dealEvents.push(CommunityCardsDealt({ cards: [cardDealt], phase: nextPhase }));
+  // Every board gets its street in turn, each with its own burn card
+  const newBoards: (readonly Card[])[] = [];
+  let remainingDeck = state.deck;
+  for (let i = 0; i < state.boards.length; i++) {
+    const dealt = dealStreet(remainingDeck, nextPhase);
+    if (Either.isLeft(dealt)) return Either.left(dealt.left);
+    const [cards, deckAfter] = dealt.right;
+    newBoards.push([...unsafeGet(state.boards, i, "dealAndStartRound:board"), ...cards]);
+    remainingDeck = deckAfter;
+    dealEvents.push(CommunityCardsDealt({ cards, phase: nextPhase, board: i + 1 }));
   }
 
   const stateWithCards: HandState = {
     ...state,
     phase: nextPhase,
-    communityCards: newCommunityCards,
+    boards: newBoards,
     deck: remainingDeck,
     events: [...state.events, ...dealEvents],
   };
@@ -462,7 +807,12 @@ function dealAndStartRound(
     stateWithCards.players,
     firstToAct.value,
     ZERO_CHIPS,
-    state.forcedBets.bigBlind,
+    streetBetSize(state, nextPhase),
+    {
+      structure: state.bettingStructure,
+      collectedPot: totalPotSize(stateWithCards.pots),
+      raiseCap: state.raiseCap,
+    },
   );
 
   return Either.right({
@@ -471,11 +821,98 @@ function dealAndStartRound(
   });
 }
 
+// ---------------------------------------------------------------------------
+// Run it N times (internal)
+// ---------------------------------------------------------------------------
+
+/**
+ * How many boards an all-in runout is dealt: the fewest any live player agreed
+ * to, capped by the hand's maximum and by the cards left in the deck.
+ */
+function agreedRunouts(state: HandState): number {
+  const dealt = getCommunityCards(state).length;
+  const remaining = 5 - dealt;
+  if (state.maxRunouts <= 1 || remaining === 0 || state.boards.length > 1) return 1;
+
+  // Each street burns one card before it is dealt
+  const burns = dealt === 0 ? 3 : dealt === 3 ? 2 : 1;
+  const fitInDeck = Math.floor(state.deck.length / (remaining + burns));
+  const votes = activePlayers(state.players).map((p) =>
+    Option.getOrElse(HashMap.get(state.runItTimes, p.seatIndex), () => 1),
+  );
+  return Math.max(1, Math.min(state.maxRunouts, fitInDeck, ...votes));
+}
+
+/** Deal the rest of the board from `deck`, street by street with burns. */
+function dealRemainingBoard(
+  deck: Deck,
+  board: readonly Card[],
+): Either.Either<[readonly Card[], Deck], PokerError> {
+  let cards: readonly Card[] = [];
+  let remaining = deck;
+  while (board.length + cards.length < 5) {
+    const dealtSoFar = board.length + cards.length;
+    const street = dealtSoFar === 0 ? "Flop" : dealtSoFar === 3 ? "Turn" : "River";
+    const dealt = dealStreet(remaining, street);
+    if (Either.isLeft(dealt)) return Either.left(dealt.left);
+    cards = [...cards, ...dealt.right[0]];
+    remaining = dealt.right[1];
+  }
+  return Either.right([cards, remaining]);
+}
+
+/** Deal the remaining board `times` times from the same deck, then settle each board. */
+function runItMultiple(state: HandState, times: number): Either.Either<HandState, PokerError> {
+  const events: GameEvent[] = [
+    RunItAgreed({ times, seats: activePlayers(state.players).map((p) => p.seatIndex) }),
+  ];
+  const boards: (readonly Card[])[] = [];
+  const communityCards = getCommunityCards(state);
+  let deck = state.deck;
+
+  for (let run = 1; run <= times; run++) {
+    const dealt = dealRemainingBoard(deck, communityCards);
+    if (Either.isLeft(dealt)) return Either.left(dealt.left);
+    const [cards, remaining] = dealt.right;
+    const board = [...communityCards, ...cards];
+    boards.push(board);
+    deck = remaining;
+    events.push(RunoutDealt({ run, cards, board }));
+  }
+
+  return performShowdown(
+    { ...state, deck, events: [...state.events, ...events] },
+    boards,
+    "run",
+  );
+}
+
+// ---------------------------------------------------------------------------
+// collectRake (internal)
+// ---------------------------------------------------------------------------
+
+/** Take the house rake out of the pots, unless no-flop-no-drop waives it. */
+function collectRake(state: HandState, sawFlop: boolean): HandState {
+  if (Option.isNone(state.rake)) return state;
+  const rake = state.rake.value;
+  if (rake.noFlopNoDrop === true && !sawFlop) return state;
+
+  const taken = takeRake(state.pots, rake, state.seatOrder.length);
+  if (chipsToNumber(taken.rake) === 0) return state;
+  return {
+    ...state,
+    pots: taken.pots,
+    rakeTaken: addChips(state.rakeTaken, taken.rake),
+    events: [...state.events, RakeTaken({ amount: taken.rake })],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // awardToLastPlayer (internal)
 // ---------------------------------------------------------------------------
 
-function awardToLastPlayer(state: HandState): Either.Either<HandState, PokerError> {
+function awardToLastPlayer(unraked: HandState): Either.Either<HandState, PokerError> {
+  const state = collectRake(unraked, getCommunityCards(unraked).length > 0);
   const remaining = activePlayers(state.players);
 
   if (remaining.length === 0) {
@@ -494,7 +931,7 @@ function awardToLastPlayer(state: HandState): Either.Either<HandState, PokerErro
   for (let i = 0; i < state.pots.length; i++) {
     const pot = state.pots[i];
     if (pot === undefined) continue;
-    awardEvents.push(PotAwarded({ seat: winner.seatIndex, amount: pot.amount, potIndex: i, handDescription: "Unopposed", bestCards: [] }));
+    awardEvents.push(PotAwarded({ seat: winner.seatIndex, amount: pot.amount, potIndex: i, half: "High", handDescription: "Unopposed", bestCards: [] }));
     currentPlayers = updatePlayer(currentPlayers, winner.seatIndex, (p) =>
       winChips(p, pot.amount),
     );
@@ -551,56 +988,86 @@ function getShowdownRevealOrder(
 // performShowdown (internal)
 // ---------------------------------------------------------------------------
 
-function performShowdown(state: HandState): Either.Either<HandState, PokerError> {
+/**
+ * Settle the hand at showdown. With more than one board (run it N times, or a
+ * double board) the pots are split evenly across the boards, and each board
+ * is revealed and awarded on its own, tagged with its run or board number.
+ */
+function performShowdown(
+  unraked: HandState,
+  boards: readonly (readonly Card[])[] = unraked.boards,
+  label: "run" | "board" = "board",
+): Either.Either<HandState, PokerError> {
+  // A showdown always has a board, so no-flop-no-drop never applies here
+  const state = collectRake(unraked, true);
   const showdownEvents: GameEvent[] = [ShowdownStarted];
+  const isMultiRun = boards.length > 1;
+  const potsPerRun = isMultiRun ? splitPots(state.pots, boards.length) : [state.pots];
+  const { evaluate, evaluateLow } = variantRules(state.variant);
+  const revealOrder = getShowdownRevealOrder(state);
 
-  // Evaluate all non-folded players' hands
-  const playerHands = new Map<SeatIndex, HandRank>();
-
-  for (const player of state.players) {
-    if (!player.isFolded && Option.isSome(player.holeCards)) {
-      const result = evaluateHoldem(player.holeCards.value, state.communityCards);
-      if (Either.isRight(result)) {
-        playerHands.set(player.seatIndex, result.right);
+  let currentPlayers = state.players;
+  for (let i = 0; i < boards.length; i++) {
+    const board = unsafeGet(boards, i, "performShowdown:board");
+    const pots = unsafeGet(potsPerRun, i, "performShowdown:pots");
+    const tag = !isMultiRun ? {} : label === "run" ? { run: i + 1 } : { board: i + 1 };
+
+    // Evaluate all non-folded players' hands
+    const playerHands = new Map<SeatIndex, HandRank>();
+    const lowHands = evaluateLow === undefined ? undefined : new Map<SeatIndex, HandRank>();
+
+    for (const player of state.players) {
+      if (!player.isFolded && Option.isSome(player.holeCards)) {
+        const result = evaluate(player.holeCards.value, board);
+        if (Either.isRight(result)) {
+          playerHands.set(player.seatIndex, result.right);
+        }
+        if (evaluateLow !== undefined && lowHands !== undefined) {
+          const low = evaluateLow(player.holeCards.value, board);
+          if (Option.isSome(low)) lowHands.set(player.seatIndex, low.value);
+        }
       }
     }
-  }
 
-  // Emit PlayerRevealed events in showdown order
-  const revealOrder = getShowdownRevealOrder(state);
-  for (const seat of revealOrder) {
-    const player = findPlayer(state.players, seat);
-    if (player === undefined || Option.isNone(player.holeCards)) continue;
-    const hr = playerHands.get(seat);
-    if (hr === undefined) continue;
-    showdownEvents.push(PlayerRevealed({
-      seat,
-      holeCards: player.holeCards.value,
-      handDescription: hr.description,
-      handRank: hr.rank,
-    }));
-  }
-
-  // Award pots (single source of truth for winners)
-  const awards = awardPots(
-    state.pots,
-    playerHands,
-    state.button,
-    state.seatOrder,
-  );
+    // Emit PlayerRevealed events in showdown order
+    for (const seat of revealOrder) {
+      const player = findPlayer(state.players, seat);
+      if (player === undefined || Option.isNone(player.holeCards)) continue;
+      const hr = playerHands.get(seat);
+      if (hr === undefined) continue;
+      showdownEvents.push(PlayerRevealed({
+        seat,
+        holeCards: player.holeCards.value,
+        handDescription: hr.description,
+        handRank: hr.rank,
+        handKey: hr.key,
+        ...tag,
+      }));
+    }
 
-  let currentPlayers = state.players;
-  for (const award of awards) {
-    showdownEvents.push(PotAwarded({
-      seat: award.seat,
-      amount: award.amount,
-      potIndex: award.potIndex,
-      handDescription: award.handRank.description,
-      bestCards: award.handRank.bestCards,
-    }));
-    currentPlayers = updatePlayer(currentPlayers, award.seat, (p) =>
-      winChips(p, award.amount),
+    // Award pots (single source of truth for winners)
+    const awards = awardPots(
+      pots,
+      playerHands,
+      state.button,
+      state.seatOrder,
+      lowHands,
     );
+
+    for (const award of awards) {
+      showdownEvents.push(PotAwarded({
+        seat: award.seat,
+        amount: award.amount,
+        potIndex: award.potIndex,
+        half: award.half,
+        handDescription: award.handRank.description,
+        bestCards: award.handRank.bestCards,
+        ...tag,
+      }));
+      currentPlayers = updatePlayer(currentPlayers, award.seat, (p) =>
+        winChips(p, award.amount),
+      );
+    }
   }
 
   showdownEvents.push(HandEnded);
@@ -610,6 +1077,8 @@ function performShowdown(state: HandState): Either.Either<HandState, PokerError>
     ...state,
     phase: completePhase,
     players: currentPlayers,
+    boards: label === "run" ? [unsafeGet(boards, 0, "performShowdown:boards")] : boards,
+    runouts: isMultiRun && label === "run" ? boards : [],
     pots: [],
     bettingRound: Option.none(),
     events: [...state.events, ...showdownEvents],
@@ -638,6 +1107,11 @@ export function getLegalActions(state: HandState): Option.Option<LegalActions> {
   );
 }
 
+/** Community cards dealt so far, on the first board when there are two. */
+export function getCommunityCards(state: HandState): readonly Card[] {
+  return state.boards[0] ?? [];
+}
+
 export function getEvents(state: HandState): readonly GameEvent[] {
   return state.events;
 }
@@ -7,10 +7,18 @@ export * from "./action";
 export * from "./event";
 export * from "./error";
 export * from "./pot";
+export * from "./stakes";
+export * from "./variant";
+export * from "./schedule";
+export * from "./payout";
+export * from "./range";
+export * from "./equity";
 
 // Re-export betting with namespace prefix to avoid conflicts with hand/table
 export {
   type BettingRoundState,
+  type BettingRoundOptions,
+  DEFAULT_RAISE_CAP,
   createBettingRound,
   applyAction as bettingApplyAction,
   getLegalActions as bettingGetLegalActions,
@@ -25,9 +33,22 @@ export * from "./hand";
 export {
   type TableConfig,
   type TableState,
+  type NextHandOptions,
+  type BlindPositions,
+  type BuyInLimit,
+  type Departure,
+  type SitOutRequest,
   createTable,
   sitDown,
   standUp,
+  sitOut,
+  sitIn,
+  setSitOutNextHand,
+  setSitOutNextBigBlind,
+  topUp,
+  rebuy,
+  addOn,
+  setRunItTimes,
   startNextHand,
   act as tableAct,
   getActivePlayer,
@@ -53,3 +74,5 @@ export {
   alwaysFold,
   passiveStrategy,
 } from "./loop";
+
+export * from "./tournament";
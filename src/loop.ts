@@ -13,6 +13,7 @@ import { Fold, Check, Call } from "./action";
 import type { GameEvent } from "./event";
 import type { PokerError } from "./error";
 import type { SeatIndex } from "./brand";
+import { chipsToNumber } from "./brand";
 import type { TableState } from "./table";
 import {
   startNextHand,
@@ -87,6 +88,13 @@ function chooseValidFallback(ctx: StrategyContext): Action {
   return Fold;
 }
 
+/** Seated players with chips who are not sitting out. */
+function countReadyPlayers(table: TableState): number {
+  return HashMap.size(
+    HashMap.filter(table.seats, (p, seat) => chipsToNumber(p.chips) > 0 && !HashMap.has(table.sittingOut, seat)),
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Loop state records
 // ---------------------------------------------------------------------------
@@ -142,11 +150,17 @@ const updateEventTracking =
     };
   };
 
+/** Fire the table events `startNextHand` added, then the new hand's. */
 const fireInitialEvents =
   (onEvent?: (event: GameEvent) => void) =>
+  (tableEventsBaseline: number) =>
   (state: TableState): Effect.Effect<void> =>
     Effect.sync(() => {
-      if (onEvent && Option.isSome(state.currentHand)) {
+      if (!onEvent) return;
+      for (const ev of state.events.slice(tableEventsBaseline)) {
+        onEvent(ev);
+      }
+      if (Option.isSome(state.currentHand)) {
         for (const ev of state.currentHand.value.events) {
           onEvent(ev);
         }
@@ -271,7 +285,7 @@ export const playHand =
     return (table: TableState): Effect.Effect<PlayHandResult, PokerError> =>
       pipe(
         startNextHand(table),
-        Effect.tap(fireEvents),
+        Effect.tap(fireEvents(table.events.length)),
         Effect.flatMap(runHand),
       );
   };
@@ -298,7 +312,7 @@ export const playGame =
           while: (gs) =>
             gs.completed
             && gs.handsPlayed < maxHands
-            && HashMap.size(gs.state.seats) >= 2
+            && countReadyPlayers(gs.state) >= 2
             && !(stopWhen?.(gs.state, gs.handsPlayed)),
           body: (gs) =>
             pipe(
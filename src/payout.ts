@@ -0,0 +1,140 @@
+/**
+ * Tournament payouts: Malmuth-Harville finishing probabilities, Independent
+ * Chip Model (ICM) equities, and deal-making at final tables.
+ *
+ * Pure module — stacks in, prize money out.
+ *
+ * @module
+ */
+
+import { Either, HashMap } from "effect";
+
+import type { Chips, SeatIndex } from "./brand";
+import { chipsToNumber } from "./brand";
+import { InvalidConfig } from "./error";
+import type { TableState } from "./table";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Prize money still to be paid, by finishing position: index 0 pays first. */
+export type PrizeStructure = readonly number[];
+
+/** How to split the prize pool in a deal. */
+export type DealMethod = "Icm" | "ChipChop";
+
+export interface Deal {
+  readonly method: DealMethod;
+  /** Money each player takes now, in the order the stacks were given. */
+  readonly payouts: readonly number[];
+  /** Money left in first place for the players to play for. */
+  readonly reserve: number;
+}
+
+// ---------------------------------------------------------------------------
+// finishProbabilities
+// ---------------------------------------------------------------------------
+
+/**
+ * Malmuth-Harville finishing probabilities: `result[i][p]` is the chance
+ * that player `i` finishes in place `p + 1`. Each place goes to a remaining
+ * player in proportion to their stack. Only the first `places` places are
+ * computed; the work grows with the number of ways to fill them.
+ */
+export function finishProbabilities(
+  stacks: readonly Chips[],
+  places: number = stacks.length,
+): readonly (readonly number[])[] {
+  const chips = stacks.map(chipsToNumber);
+  const depth = Math.max(0, Math.min(places, chips.length));
+  const probs = chips.map(() => new Array<number>(depth).fill(0));
+
+  // Chance that the places filled so far went to exactly the players in each set
+  let filled = new Map<bigint, number>([[0n, 1]]);
+  for (let place = 0; place < depth; place++) {
+    const next = new Map<bigint, number>();
+    for (const [placed, chance] of filled) {
+      const left = chips.flatMap((_, i) => ((placed >> BigInt(i)) & 1n) === 0n ? [i] : []);
+      const total = left.reduce((sum, i) => sum + (chips[i] ?? 0), 0);
+      for (const i of left) {
+        const share = total > 0 ? (chips[i] ?? 0) / total : 1 / left.length;
+        const p = chance * share;
+        if (p === 0) continue;
+        const row = probs[i];
+        if (row !== undefined) row[place] = (row[place] ?? 0) + p;
+        const key = placed | (1n << BigInt(i));
+        next.set(key, (next.get(key) ?? 0) + p);
+      }
+    }
+    filled = next;
+  }
+
+  return probs;
+}
+
+// ---------------------------------------------------------------------------
+// icmEquities
+// ---------------------------------------------------------------------------
+
+/** Each player's share of the prize pool under the Independent Chip Model. */
+export function icmEquities(stacks: readonly Chips[], prizes: PrizeStructure): readonly number[] {
+  const paid = prizes.slice(0, stacks.length);
+  return finishProbabilities(stacks, paid.length).map((row) =>
+    row.reduce((sum, p, place) => sum + p * (paid[place] ?? 0), 0),
+  );
+}
+
+/**
+ * ICM equity for every seated player with chips, using the stacks they
+ * started the current hand with.
+ */
+export function tableEquities(
+  table: TableState,
+  prizes: PrizeStructure,
+): HashMap.HashMap<SeatIndex, number> {
+  const players = Array.from(HashMap.values(table.seats)).filter((p) => chipsToNumber(p.chips) > 0);
+  const equities = icmEquities(players.map((p) => p.chips), prizes);
+  return HashMap.fromIterable(players.map((p, i) => [p.seatIndex, equities[i] ?? 0] as const));
+}
+
+// ---------------------------------------------------------------------------
+// Deals
+// ---------------------------------------------------------------------------
+
+/**
+ * Split the prizes still to be paid among the remaining players. `reserve`
+ * is taken out of first place and left for them to play for; it must be a
+ * non-negative amount no larger than first prize.
+ *
+ * - `"Icm"` pays each player their ICM equity.
+ * - `"ChipChop"` guarantees everyone the smallest prize still in play and
+ *   splits the rest in proportion to chips.
+ */
+export function proposeDeal(
+  stacks: readonly Chips[],
+  prizes: PrizeStructure,
+  method: DealMethod,
+  reserve = 0,
+): Either.Either<Deal, InvalidConfig> {
+  const firstPrize = prizes[0] ?? 0;
+  if (!(Number.isFinite(reserve) && reserve >= 0 && reserve <= firstPrize)) {
+    return Either.left(
+      new InvalidConfig({ reason: `reserve must be between 0 and the first prize of ${firstPrize}, got ${reserve}` }),
+    );
+  }
+
+  const paid = prizes.slice(0, stacks.length).map((prize, place) => (place === 0 ? prize - reserve : prize));
+
+  if (method === "Icm") {
+    return Either.right({ method, payouts: icmEquities(stacks, paid), reserve });
+  }
+
+  const floor = stacks.length <= paid.length ? (paid[stacks.length - 1] ?? 0) : 0;
+  const pool = paid.reduce((sum, prize) => sum + prize, 0) - floor * stacks.length;
+  const totalChips = stacks.reduce((sum, c) => sum + chipsToNumber(c), 0);
+  const payouts = stacks.map((c) =>
+    floor + (totalChips > 0 ? (pool * chipsToNumber(c)) / totalChips : pool / stacks.length),
+  );
+  return Either.right({ method, payouts, reserve });
+}
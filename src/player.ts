@@ -18,7 +18,7 @@ export interface Player {
   readonly currentBet: Chips;
   readonly isAllIn: boolean;
   readonly isFolded: boolean;
-  readonly holeCards: Option.Option<readonly [Card, Card]>;
+  readonly holeCards: Option.Option<readonly Card[]>;
 }
 
 // ---------------------------------------------------------------------------
@@ -51,6 +51,25 @@ export function placeBet(player: Player, amount: Chips): Player {
   };
 }
 
+export function returnBet(player: Player, amount: Chips): Player {
+  const newChips = addChips(player.chips, amount);
+  return {
+    ...player,
+    chips: newChips,
+    currentBet: subtractChips(player.currentBet, amount),
+    isAllIn: chipsToNumber(newChips) === 0,
+  };
+}
+
+export function postAnte(player: Player, amount: Chips): Player {
+  const newChips = subtractChips(player.chips, amount);
+  return {
+    ...player,
+    chips: newChips,
+    isAllIn: chipsToNumber(newChips) === 0,
+  };
+}
+
 export function fold(player: Player): Player {
   return { ...player, isFolded: true };
 }
@@ -68,7 +87,7 @@ export function collectBet(player: Player): Player {
 
 export function dealCards(
   player: Player,
-  cards: readonly [Card, Card],
+  cards: readonly Card[],
 ): Player {
   return { ...player, holeCards: Option.some(cards) };
 }
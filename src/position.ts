@@ -6,7 +6,7 @@
  * @module
  */
 
-import { Option, Schema } from "effect";
+import { HashMap, Option, Schema } from "effect";
 
 import type { SeatIndex } from "./brand";
 import {
@@ -21,7 +21,7 @@ import { LegalActionsSchema } from "./action";
 import type { LegalActions } from "./action";
 import type { Player } from "./player";
 import type { HandState } from "./hand";
-import { getLegalActions as handGetLegalActions } from "./hand";
+import { getCommunityCards, getLegalActions as handGetLegalActions } from "./hand";
 import type { GameEvent } from "./event";
 import type { TableState } from "./table";
 
@@ -57,22 +57,26 @@ export const StrategyContextSchema = Schema.Struct({
   // Identity
   seat: SeatIndexSchema,
   chips: ChipsSchema,
-  holeCards: Schema.Option(Schema.Tuple(CardSchema, CardSchema)),
+  holeCards: Schema.Option(Schema.Array(CardSchema)),
 
   // Position
   role: PositionalRoleSchema,
   buttonSeat: SeatIndexSchema,
-  smallBlindSeat: SeatIndexSchema,
+  smallBlindSeat: Schema.Option(SeatIndexSchema),
   bigBlindSeat: SeatIndexSchema,
   playersToActAfter: Schema.Number.pipe(Schema.int(), Schema.nonNegative()),
 
   // Hand state
   phase: Schema.Literal("Preflop", "Flop", "Turn", "River", "Showdown", "Complete"),
   communityCards: Schema.Array(CardSchema),
+  boards: Schema.Array(Schema.Array(CardSchema)),
   potTotal: ChipsSchema,
   bigBlind: ChipsSchema,
   activeSeatCount: Schema.Number.pipe(Schema.int(), Schema.nonNegative()),
 
+  // Tournament — ICM equity per seat when the table has prizes
+  icmEquities: Schema.Option(Schema.Array(Schema.Struct({ seat: SeatIndexSchema, equity: Schema.Number }))),
+
   // Action
   legalActions: LegalActionsSchema,
   players: Schema.Array(PlayerViewSchema),
@@ -253,8 +257,6 @@ export function buildStrategyContext(
   const role = roles.get(seat);
   if (role === undefined) return Option.none();
 
-  const sbSeat = getSmallBlindSeat(hand.seatOrder);
-  const bbSeat = getBigBlindSeat(hand.seatOrder);
   const playersAfter = getPlayersToActAfter(hand, seat);
 
   // Compute pot total from player bets + existing pots
@@ -293,14 +295,18 @@ export function buildStrategyContext(
     holeCards: player.holeCards,
     role,
     buttonSeat: hand.button,
-    smallBlindSeat: sbSeat,
-    bigBlindSeat: bbSeat,
+    smallBlindSeat: hand.smallBlindSeat,
+    bigBlindSeat: hand.bigBlindSeat,
     playersToActAfter: playersAfter,
     phase: hand.phase,
-    communityCards: [...hand.communityCards],
+    communityCards: [...getCommunityCards(hand)],
+    boards: hand.boards.map((board) => [...board]),
     potTotal: makeChips(potTotal),
     bigBlind: hand.forcedBets.bigBlind,
     activeSeatCount: activePlayers.length,
+    icmEquities: Option.map(table.icmEquities, (equities) =>
+      Array.from(HashMap.entries(equities), ([s, equity]) => ({ seat: s, equity })),
+    ),
     legalActions,
     players: playerViews,
     newEvents: [...newEvents],
@@ -4,13 +4,14 @@
  * @module
  */
 
-import { Array as A, Option, pipe } from "effect";
+import { Array as A, Option, Order, pipe } from "effect";
 import type { Chips, SeatIndex } from "./brand";
 import {
   Chips as makeChips,
   ZERO_CHIPS,
   addChips,
   chipsToNumber,
+  ChipsOrder,
   SeatIndexOrder,
 } from "./brand";
 import { compare } from "./evaluator";
@@ -94,7 +95,7 @@ export function collectBets(
   }
 
   const consolidated = consolidatePots(newPots);
-  const merged = mergePots(existingPots, consolidated);
+  const merged = mergePots(pruneFolded(existingPots, players), consolidated);
 
   const zeroedPlayers: readonly BettingPlayer[] = pipe(
     mutablePlayers,
@@ -109,6 +110,112 @@ export function collectBets(
   return { pots: merged, players: zeroedPlayers };
 }
 
+// ---------------------------------------------------------------------------
+// uncalledBet
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the part of the round's largest bet that nobody matched.
+ *
+ * Folded players' bets count as matched chips — they are in the pot. The
+ * excess over the second-largest bet belongs to the bettor and must be
+ * returned before pots are built.
+ */
+export function uncalledBet(
+  players: readonly BettingPlayer[],
+): Option.Option<{ readonly seat: SeatIndex; readonly amount: Chips }> {
+  const sorted = pipe(
+    players,
+    A.sort(Order.reverse(Order.mapInput(ChipsOrder, (p: BettingPlayer) => p.currentBet))),
+  );
+  const [top, second] = sorted;
+  if (top === undefined) return Option.none();
+
+  const matched = second === undefined ? 0 : chipsToNumber(second.currentBet);
+  const excess = chipsToNumber(top.currentBet) - matched;
+  return excess > 0
+    ? Option.some({ seat: top.seatIndex, amount: makeChips(excess) })
+    : Option.none();
+}
+
+// ---------------------------------------------------------------------------
+// collectAntes
+// ---------------------------------------------------------------------------
+
+export interface AnteContribution {
+  readonly seatIndex: SeatIndex;
+  readonly amount: Chips;
+  readonly isAllIn: boolean;
+}
+
+/**
+ * Collect antes into the pot as dead money.
+ *
+ * Antes never count toward a player's `currentBet`, but they are layered
+ * exactly like bets: a player all-in for less than a full ante is only
+ * eligible for the matching slice of every other player's ante.
+ */
+export function collectAntes(
+  antes: readonly AnteContribution[],
+  existingPots: readonly Pot[],
+): readonly Pot[] {
+  const asBets: readonly BettingPlayer[] = pipe(
+    antes,
+    A.map((a) => ({
+      seatIndex: a.seatIndex,
+      currentBet: a.amount,
+      isFolded: false,
+      isAllIn: a.isAllIn,
+    })),
+  );
+  return collectBets(asBets, existingPots).pots;
+}
+
+// ---------------------------------------------------------------------------
+// addDeadMoney
+// ---------------------------------------------------------------------------
+
+/**
+ * Add dead money that every listed seat can win (e.g. a big-blind ante).
+ *
+ * It belongs to the main pot, so it is never capped by a later side pot.
+ */
+export function addDeadMoney(
+  pots: readonly Pot[],
+  amount: Chips,
+  eligibleSeats: readonly SeatIndex[],
+): readonly Pot[] {
+  if (chipsToNumber(amount) === 0) return pots;
+  const [main, ...rest] = pots;
+  if (main === undefined) return [createPot(amount, eligibleSeats)];
+  return [createPot(addChips(main.amount, amount), main.eligibleSeats), ...rest];
+}
+
+// ---------------------------------------------------------------------------
+// pruneFolded — drop folded seats from earlier pots so dead money merges
+// ---------------------------------------------------------------------------
+
+function pruneFolded(
+  pots: readonly Pot[],
+  players: readonly BettingPlayer[],
+): readonly Pot[] {
+  const folded = pipe(
+    players,
+    A.filter((p) => p.isFolded),
+    A.map((p) => p.seatIndex),
+  );
+  if (folded.length === 0) return pots;
+  return pipe(
+    pots,
+    A.map((pot) =>
+      createPot(
+        pot.amount,
+        pot.eligibleSeats.filter((s) => !folded.includes(s)),
+      ),
+    ),
+  );
+}
+
 // ---------------------------------------------------------------------------
 // consolidatePots — merge consecutive pots with identical eligible seats
 // ---------------------------------------------------------------------------
@@ -174,65 +281,185 @@ function sameSeatSet(
 // awardPots
 // ---------------------------------------------------------------------------
 
+/** Which half of a split pot an award was won on. Non-split games are always `"High"`. */
+export type PotHalf = "High" | "Low";
+
+export interface PotAward {
+  readonly seat: SeatIndex;
+  readonly amount: Chips;
+  readonly potIndex: number;
+  readonly half: PotHalf;
+  readonly handRank: HandRank;
+}
+
+/**
+ * Award each pot to its best hand(s). When `lowHands` is given (hi-lo games),
+ * a pot with a qualifying low among its contenders is split: the high half
+ * takes any odd chip, and each half is shared separately, so a pot can be
+ * scooped, halved, or quartered. With no qualifying low the high hand scoops.
+ */
 export function awardPots(
   pots: readonly Pot[],
   playerHands: ReadonlyMap<SeatIndex, HandRank>,
   buttonSeat: SeatIndex,
   seatOrder: readonly SeatIndex[],
-): readonly { seat: SeatIndex; amount: Chips; potIndex: number; handRank: HandRank }[] {
-  const awards: { seat: SeatIndex; amount: Chips; potIndex: number; handRank: HandRank }[] = [];
+  lowHands?: ReadonlyMap<SeatIndex, HandRank>,
+): readonly PotAward[] {
+  const awards: PotAward[] = [];
 
   for (let potIndex = 0; potIndex < pots.length; potIndex++) {
     const pot = pots[potIndex]!;
-    const contenders = pipe(
+    const eligible = pipe(
       pot.eligibleSeats,
       A.filter((s) => playerHands.has(s)),
     );
+    // Dead money whose contributors all folded goes to the best live hand.
+    const contenders = eligible.length > 0 ? eligible : Array.from(playerHands.keys());
 
     if (contenders.length === 0) continue;
 
-    if (contenders.length === 1) {
-      const sole = contenders[0];
-      if (sole === undefined) continue;
-      const handRank = playerHands.get(sole)!;
-      awards.push({ seat: sole, amount: pot.amount, potIndex, handRank });
+    const lowContenders = lowHands === undefined
+      ? []
+      : contenders.filter((s) => lowHands.has(s));
+    const potAmount = chipsToNumber(pot.amount);
+
+    if (lowHands === undefined || lowContenders.length === 0) {
+      awards.push(...splitShare(potAmount, contenders, playerHands, potIndex, "High", buttonSeat, seatOrder));
       continue;
     }
 
-    // Find winners using full hand comparison (not just category rank)
-    const contenderHands = contenders
-      .map((seat) => ({ seat, hand: playerHands.get(seat)! }))
-      .filter((h) => h.hand !== undefined);
+    const lowAmount = Math.floor(potAmount / 2);
+    awards.push(
+      ...splitShare(potAmount - lowAmount, contenders, playerHands, potIndex, "High", buttonSeat, seatOrder),
+      ...splitShare(lowAmount, lowContenders, lowHands, potIndex, "Low", buttonSeat, seatOrder),
+    );
+  }
 
-    let best = contenderHands[0]!;
-    for (let i = 1; i < contenderHands.length; i++) {
-      const current = contenderHands[i]!;
-      if (compare(current.hand, best.hand) === 1) {
-        best = current;
-      }
+  return awards;
+}
+
+/** Share `amount` among the best hands; the first winner clockwise from the button gets the odd chips. */
+function splitShare(
+  amount: number,
+  contenders: readonly SeatIndex[],
+  hands: ReadonlyMap<SeatIndex, HandRank>,
+  potIndex: number,
+  half: PotHalf,
+  buttonSeat: SeatIndex,
+  seatOrder: readonly SeatIndex[],
+): readonly PotAward[] {
+  // Find winners using full hand comparison (not just category rank)
+  const contenderHands = contenders
+    .map((seat) => ({ seat, hand: hands.get(seat)! }))
+    .filter((h) => h.hand !== undefined);
+
+  let best = contenderHands[0];
+  if (best === undefined) return [];
+  for (let i = 1; i < contenderHands.length; i++) {
+    const current = contenderHands[i]!;
+    if (compare(current.hand, best.hand) === 1) {
+      best = current;
     }
+  }
 
-    const winnerSeats = contenderHands
-      .filter((h) => compare(h.hand, best.hand) === 0)
-      .map((h) => h.seat);
+  const bestHand = best.hand;
+  const winnerSeats = contenderHands
+    .filter((h) => compare(h.hand, bestHand) === 0)
+    .map((h) => h.seat);
 
-    const potAmount = chipsToNumber(pot.amount);
-    const share = Math.floor(potAmount / winnerSeats.length);
-    const remainder = potAmount - share * winnerSeats.length;
+  const share = Math.floor(amount / winnerSeats.length);
+  const remainder = amount - share * winnerSeats.length;
 
-    const clockwiseFromButton = clockwiseOrder(buttonSeat, seatOrder);
-    const oddChipRecipient = clockwiseFromButton.find((s) =>
-      winnerSeats.includes(s),
-    );
+  const clockwiseFromButton = clockwiseOrder(buttonSeat, seatOrder);
+  const oddChipRecipient = clockwiseFromButton.find((s) =>
+    winnerSeats.includes(s),
+  );
 
-    for (const seat of winnerSeats) {
-      const extra = seat === oddChipRecipient ? remainder : 0;
-      const handRank = playerHands.get(seat)!;
-      awards.push({ seat, amount: makeChips(share + extra), potIndex, handRank });
-    }
-  }
+  return winnerSeats.map((seat) => {
+    const extra = seat === oddChipRecipient ? remainder : 0;
+    const handRank = hands.get(seat)!;
+    return { seat, amount: makeChips(share + extra), potIndex, half, handRank };
+  });
+}
 
-  return awards;
+// ---------------------------------------------------------------------------
+// splitPots — divide every pot into equal parts (one per runout)
+// ---------------------------------------------------------------------------
+
+/**
+ * Split every pot into `parts` pots with the same eligibility, one set per
+ * runout. Chips that don't divide evenly go to the earliest parts.
+ */
+export function splitPots(
+  pots: readonly Pot[],
+  parts: number,
+): readonly (readonly Pot[])[] {
+  return Array.from({ length: parts }, (_, part) =>
+    pots.map((pot) => {
+      const amount = chipsToNumber(pot.amount);
+      const share = Math.floor(amount / parts);
+      const extra = part < amount - share * parts ? 1 : 0;
+      return createPot(makeChips(share + extra), pot.eligibleSeats);
+    }),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Rake
+// ---------------------------------------------------------------------------
+
+/** Most rake taken from a hand dealt to at least `players` players. */
+export interface RakeCap {
+  readonly players: number;
+  readonly cap: Chips;
+}
+
+export interface Rake {
+  /** Share of every pot taken, as a percentage (5 = 5%). */
+  readonly percentage: number;
+  /**
+   * The cap with the largest `players` not above the hand's player count
+   * applies; a hand smaller than every tier gets the smallest tier's cap.
+   */
+  readonly caps?: readonly RakeCap[];
+  /** Take no rake from a hand that ends before the flop is dealt. */
+  readonly noFlopNoDrop?: boolean;
+}
+
+/** The cap for a hand dealt to `playerCount` players, if any cap applies. */
+export function rakeCap(rake: Rake, playerCount: number): Option.Option<Chips> {
+  const tiers = A.sort(rake.caps ?? [], Order.mapInput(Order.number, (c: RakeCap) => c.players));
+  return pipe(
+    tiers,
+    A.filter((c) => c.players <= playerCount),
+    A.last,
+    Option.orElse(() => A.head(tiers)),
+    Option.map((c) => c.cap),
+  );
+}
+
+/**
+ * Take rake out of the pots before they are awarded. Each pot gives up its
+ * percentage, rounded down, main pot first, until the cap is reached.
+ */
+export function takeRake(
+  pots: readonly Pot[],
+  rake: Rake,
+  playerCount: number,
+): { readonly pots: readonly Pot[]; readonly rake: Chips } {
+  let remainingCap = pipe(
+    rakeCap(rake, playerCount),
+    Option.match({ onNone: () => Infinity, onSome: chipsToNumber }),
+  );
+  let taken = 0;
+  const raked = pots.map((pot) => {
+    const amount = chipsToNumber(pot.amount);
+    const cut = Math.min(Math.floor((amount * rake.percentage) / 100), remainingCap);
+    remainingCap -= cut;
+    taken += cut;
+    return createPot(makeChips(amount - cut), pot.eligibleSeats);
+  });
+  return { pots: raked, rake: makeChips(taken) };
 }
 
 // ---------------------------------------------------------------------------
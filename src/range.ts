@@ -0,0 +1,371 @@
+/**
+ * Hand ranges: weighted sets of two-card combos, parsed from and printed to
+ * standard range notation ("TT+, AQs+, KJo, 76s-54s, AxKx, AKs:0.5").
+ *
+ * Pure module — ranges are immutable HashMaps.
+ *
+ * @module
+ */
+
+import { Either, HashMap, Option, ParseResult, Schema } from "effect";
+
+import type { Card, CardCode, Rank, Suit } from "./card";
+import { RANKS, SUITS, cardCode, fromCardCode, toPokersolverString } from "./card";
+import { InvalidRange } from "./error";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Two hole cards. */
+export type Combo = readonly [Card, Card];
+
+export interface WeightedCombo {
+  readonly combo: Combo;
+  /** Relative frequency; combos with weight 0 are never dealt. */
+  readonly weight: number;
+}
+
+/**
+ * A weighted set of combos: each combo's key maps to its weight in (0, 1].
+ * Build ranges with `parseRange` or `rangeFromCombos` rather than by key.
+ */
+export type Range = HashMap.HashMap<number, number>;
+
+export const emptyRange: Range = HashMap.empty();
+
+// ---------------------------------------------------------------------------
+// Combo keys
+// ---------------------------------------------------------------------------
+
+/** Order-independent key for two distinct cards. */
+function comboKey(a: CardCode, b: CardCode): number {
+  return a < b ? a * 52 + b : b * 52 + a;
+}
+
+/** The combo for a key, higher card first. */
+function keyCombo(key: number): Combo | undefined {
+  const low = fromCardCode(Math.floor(key / 52));
+  const high = fromCardCode(key % 52);
+  return low === undefined || high === undefined ? undefined : [high, low];
+}
+
+/** Every combo in the range with its weight, strongest ranks first. */
+export function rangeCombos(range: Range): readonly WeightedCombo[] {
+  return Array.from(range)
+    .sort(([a], [b]) => b - a)
+    .flatMap(([key, weight]) => {
+      const combo = keyCombo(key);
+      return combo === undefined ? [] : [{ combo, weight }];
+    });
+}
+
+/** Build a range from combos; a combo listed twice keeps its larger weight. */
+export function rangeFromCombos(combos: readonly WeightedCombo[]): Range {
+  return combos.reduce(
+    (range, { combo: [a, b], weight }) => add(range, comboKey(cardCode(a), cardCode(b)), weight),
+    emptyRange,
+  );
+}
+
+/** Combos in the range, counting each by its weight. */
+export function rangeSize(range: Range): number {
+  return HashMap.reduce(range, 0, (sum, weight) => sum + weight);
+}
+
+function add(range: Range, key: number, weight: number): Range {
+  if (!(weight > 0)) return range;
+  const current = Option.getOrElse(HashMap.get(range, key), () => 0);
+  return HashMap.set(range, key, Math.min(1, Math.max(current, weight)));
+}
+
+// ---------------------------------------------------------------------------
+// Algebra
+// ---------------------------------------------------------------------------
+
+/** Combos in either range, at the larger weight. */
+export function unionRanges(a: Range, b: Range): Range {
+  return HashMap.reduce(b, a, (range, weight, key) => add(range, key, weight));
+}
+
+/** Combos in both ranges, at the smaller weight. */
+export function intersectRanges(a: Range, b: Range): Range {
+  return HashMap.filterMap(a, (weight, key) =>
+    Option.map(HashMap.get(b, key), (other) => Math.min(weight, other)),
+  );
+}
+
+/** Combos of `a` with `b`'s weight taken away; combos left at weight 0 are dropped. */
+export function subtractRange(a: Range, b: Range): Range {
+  return HashMap.filterMap(a, (weight, key) => {
+    const left = weight - Option.getOrElse(HashMap.get(b, key), () => 0);
+    return left > 0 ? Option.some(left) : Option.none();
+  });
+}
+
+/** Drop every combo that holds one of `cards`. */
+export function removeBlocked(range: Range, cards: readonly Card[]): Range {
+  const blocked = new Set(cards.map(cardCode));
+  return HashMap.filter(range, (_, key) => !blocked.has(Math.floor(key / 52)) && !blocked.has(key % 52));
+}
+
+// ---------------------------------------------------------------------------
+// Hand classes — AA, AKs, AKo and friends
+// ---------------------------------------------------------------------------
+
+const RANK_CHARS = "23456789TJQKA";
+
+type Suitedness = "s" | "o" | "";
+
+const rankChar = (rank: number): string => RANK_CHARS.charAt(rank - 2);
+
+const codeOf = (rank: number, suit: Suit): CardCode => (rank - 2) * 4 + SUITS.indexOf(suit);
+
+function toRank(char: string): Rank | undefined {
+  return RANKS[RANK_CHARS.indexOf(char.toUpperCase())];
+}
+
+/** Combo keys for a pair or for two ranks, filtered by suitedness. */
+function classKeys(high: number, low: number, suited: Suitedness): readonly number[] {
+  const keys: number[] = [];
+  for (const [i, s1] of SUITS.entries()) {
+    for (const [j, s2] of SUITS.entries()) {
+      if (high === low ? j <= i : (suited === "s" && i !== j) || (suited === "o" && i === j)) continue;
+      keys.push(comboKey(codeOf(high, s1), codeOf(low, s2)));
+    }
+  }
+  return keys;
+}
+
+// ---------------------------------------------------------------------------
+// parseRange
+// ---------------------------------------------------------------------------
+
+const COMBO_PATTERN = /^([2-9TJQKA])([cdhsx])([2-9TJQKA])([cdhsx])$/i;
+const CLASS_PATTERN = /^([2-9TJQKA])([2-9TJQKA])([so]?)(\+?)$/i;
+const SPAN_PATTERN = /^([2-9TJQKA])([2-9TJQKA])([so]?)-([2-9TJQKA])([2-9TJQKA])([so]?)$/i;
+
+/**
+ * Parse range notation: comma-separated pairs (`TT`, `TT+`, `TT-77`),
+ * hand classes (`AK`, `AKs`, `AKo`, `AQs+`, `K9o-K6o`, `76s-54s`) and
+ * specific combos (`AhKh`, with `x` for any suit as in `AxKx`). A
+ * `:weight` suffix in (0, 1] sets the frequency of everything in the token.
+ */
+export function parseRange(notation: string): Either.Either<Range, InvalidRange> {
+  let range = emptyRange;
+  for (const raw of notation.split(",")) {
+    const token = raw.trim();
+    if (token === "") continue;
+    const parsed = parseToken(token);
+    if (Either.isLeft(parsed)) return Either.left(new InvalidRange({ input: notation, reason: `"${token}": ${parsed.left}` }));
+    const { keys, weight } = parsed.right;
+    range = keys.reduce((r, key) => add(r, key, weight), range);
+  }
+  return Either.right(range);
+}
+
+function parseToken(token: string): Either.Either<{ keys: readonly number[]; weight: number }, string> {
+  const [body = "", weightText, ...extra] = token.split(":");
+  const weight = weightText === undefined ? 1 : Number(weightText);
+  if (extra.length > 0 || !(weight > 0 && weight <= 1)) {
+    return Either.left("weight must be a number in (0, 1]");
+  }
+  return Either.map(parseBody(body.trim()), (keys) => ({ keys, weight }));
+}
+
+function parseBody(body: string): Either.Either<readonly number[], string> {
+  const combo = COMBO_PATTERN.exec(body);
+  if (combo !== null) return parseCombo(combo);
+
+  const single = CLASS_PATTERN.exec(body);
+  if (single !== null) {
+    const [, c1 = "", c2 = "", suited = "", plus = ""] = single;
+    const kind = suitedness(suited);
+    return Either.map(handClass(c1, c2, suited), ({ high, low }) => {
+      if (plus === "") return classKeys(high, low, kind);
+      // TT+ climbs to AA; AQs+ climbs the kicker to one below the top card
+      const top = high === low ? 14 : high - 1;
+      const keys: number[] = [];
+      for (let r = low; r <= top; r++) keys.push(...classKeys(high === low ? r : high, r, kind));
+      return keys;
+    });
+  }
+
+  const span = SPAN_PATTERN.exec(body);
+  if (span !== null) {
+    const [, a1 = "", a2 = "", s1 = "", b1 = "", b2 = "", s2 = ""] = span;
+    if (s1.toLowerCase() !== s2.toLowerCase()) return Either.left("both ends need the same suitedness");
+    return Either.flatMap(Either.all([handClass(a1, a2, s1), handClass(b1, b2, s2)]), ([from, to]) =>
+      spanKeys(from, to, suitedness(s1)),
+    );
+  }
+
+  return Either.left("not a pair, hand class or combo");
+}
+
+function parseCombo(match: RegExpExecArray): Either.Either<readonly number[], string> {
+  const [, r1 = "", s1 = "", r2 = "", s2 = ""] = match;
+  const high = toRank(r1);
+  const low = toRank(r2);
+  if (high === undefined || low === undefined) return Either.left("unknown rank");
+  const suits = (s: string): readonly Suit[] => SUITS.filter((suit) => s.toLowerCase() === "x" || suit === s.toLowerCase());
+
+  const keys = new Set<number>();
+  for (const a of suits(s1)) {
+    for (const b of suits(s2)) {
+      const ca = codeOf(high, a);
+      const cb = codeOf(low, b);
+      if (ca !== cb) keys.add(comboKey(ca, cb));
+    }
+  }
+  return keys.size === 0 ? Either.left("a combo needs two different cards") : Either.right([...keys]);
+}
+
+interface HandClass {
+  readonly high: number;
+  readonly low: number;
+}
+
+function handClass(c1: string, c2: string, suited: string): Either.Either<HandClass, string> {
+  const a = toRank(c1);
+  const b = toRank(c2);
+  if (a === undefined || b === undefined) return Either.left("unknown rank");
+  if (a === b && suited !== "") return Either.left("pairs cannot be suited or offsuit");
+  return Either.right({ high: Math.max(a, b), low: Math.min(a, b) });
+}
+
+const suitedness = (s: string): Suitedness => (s.toLowerCase() === "s" ? "s" : s.toLowerCase() === "o" ? "o" : "");
+
+/** `TT-77`, `K9s-K6s` (same top card) or `76s-54s` (same gap). */
+function spanKeys(from: HandClass, to: HandClass, kind: Suitedness): Either.Either<readonly number[], string> {
+  const [top, bottom] = from.high > to.high || (from.high === to.high && from.low >= to.low) ? [from, to] : [to, from];
+  const keys: number[] = [];
+  if (top.high === top.low && bottom.high === bottom.low) {
+    for (let r = bottom.low; r <= top.low; r++) keys.push(...classKeys(r, r, kind));
+  } else if (top.high === bottom.high && top.high !== top.low && bottom.high !== bottom.low) {
+    for (let r = bottom.low; r <= top.low; r++) keys.push(...classKeys(top.high, r, kind));
+  } else if (top.high - top.low === bottom.high - bottom.low && top.high !== top.low) {
+    for (let shift = 0; shift <= top.high - bottom.high; shift++) {
+      keys.push(...classKeys(bottom.high + shift, bottom.low + shift, kind));
+    }
+  } else {
+    return Either.left("both ends need the same top card or the same gap");
+  }
+  return Either.right(keys);
+}
+
+// ---------------------------------------------------------------------------
+// formatRange
+// ---------------------------------------------------------------------------
+
+const weightSuffix = (weight: number): string => (weight === 1 ? "" : `:${weight}`);
+
+interface ClassEntry extends HandClass {
+  readonly weight: number;
+}
+
+/** Every class of this kind held whole at a single weight, strongest first. */
+function wholeClasses(range: Range, kind: Suitedness, pairs: boolean): readonly ClassEntry[] {
+  const entries: ClassEntry[] = [];
+  for (let high = 14; high >= 2; high--) {
+    for (let low = pairs ? high : high - 1; low >= (pairs ? high : 2); low--) {
+      const weights = classKeys(high, low, kind).map((key) => HashMap.get(range, key));
+      const first = weights[0] ?? Option.none();
+      if (Option.isSome(first) && weights.every((w) => Option.isSome(w) && w.value === first.value)) {
+        entries.push({ high, low, weight: first.value });
+      }
+    }
+  }
+  return entries;
+}
+
+/** Group entries into runs of equal weight, each entry followed by `next(entry)`. */
+function runsOf(
+  entries: readonly ClassEntry[],
+  next: (e: ClassEntry) => HandClass,
+): readonly (readonly [ClassEntry, ...ClassEntry[]])[] {
+  const left = new Map(entries.map((e) => [e.high * 16 + e.low, e]));
+  const runs: [ClassEntry, ...ClassEntry[]][] = [];
+  for (const start of entries) {
+    if (!left.delete(start.high * 16 + start.low)) continue;
+    const run: [ClassEntry, ...ClassEntry[]] = [start];
+    for (;;) {
+      const { high, low } = next(run[run.length - 1] ?? start);
+      const e = left.get(high * 16 + low);
+      if (e === undefined || e.weight !== start.weight) break;
+      left.delete(high * 16 + low);
+      run.push(e);
+    }
+    runs.push(run);
+  }
+  return runs;
+}
+
+const label = ({ high, low }: HandClass, kind: Suitedness): string => rankChar(high) + rankChar(low) + kind;
+
+/**
+ * Print a range in canonical notation: pairs, then suited and offsuit
+ * classes, then any loose combos. Whole classes collapse into runs like
+ * `TT+`, `99-66`, `AQs+`, `K9o-K6o` and `76s-54s`.
+ */
+export function formatRange(range: Range): string {
+  const tokens: string[] = [];
+  let loose = range;
+  const take = (run: readonly ClassEntry[], kind: Suitedness) => {
+    for (const e of run) loose = HashMap.removeMany(loose, classKeys(e.high, e.low, kind));
+  };
+
+  for (const run of runsOf(wholeClasses(range, "", true), (e) => ({ high: e.high - 1, low: e.low - 1 }))) {
+    const [top] = run;
+    const bottom = run[run.length - 1] ?? top;
+    const text = run.length === 1 ? label(top, "") : top.high === 14 ? `${label(bottom, "")}+` : `${label(top, "")}-${label(bottom, "")}`;
+    tokens.push(text + weightSuffix(top.weight));
+    take(run, "");
+  }
+
+  for (const kind of ["s", "o"] as const) {
+    // Runs under one top card first (AQs+, K9s-K6s), then same-gap runs of what is left (76s-54s)
+    const kickerRuns = runsOf(wholeClasses(range, kind, false), (e) => ({ high: e.high, low: e.low - 1 }));
+    const singles = kickerRuns.filter((run) => run.length === 1).flat();
+    const runs = [
+      ...kickerRuns.filter((run) => run.length > 1),
+      ...runsOf(singles, (e) => ({ high: e.high - 1, low: e.low - 1 })),
+    ].sort(([a], [b]) => b.high - a.high || b.low - a.low);
+
+    for (const run of runs) {
+      const [top] = run;
+      const bottom = run[run.length - 1] ?? top;
+      const text = run.length === 1
+        ? label(top, kind)
+        : top.high === bottom.high && top.low === top.high - 1
+          ? `${label(bottom, kind)}+`
+          : `${label(top, kind)}-${label(bottom, kind)}`;
+      tokens.push(text + weightSuffix(top.weight));
+      take(run, kind);
+    }
+  }
+
+  for (const { combo: [a, b], weight } of rangeCombos(loose)) {
+    tokens.push(toPokersolverString(a) + toPokersolverString(b) + weightSuffix(weight));
+  }
+  return tokens.join(", ");
+}
+
+// ---------------------------------------------------------------------------
+// RangeSchema
+// ---------------------------------------------------------------------------
+
+/** A range stored as its notation string, e.g. in JSON config. */
+export const RangeSchema: Schema.Schema<Range, string> = Schema.transformOrFail(
+  Schema.String,
+  Schema.HashMapFromSelf({ key: Schema.Number, value: Schema.Number }),
+  {
+    strict: true,
+    decode: (notation, _, ast) =>
+      Either.match(parseRange(notation), {
+        onLeft: (e) => ParseResult.fail(new ParseResult.Type(ast, notation, e.reason)),
+        onRight: (range) => ParseResult.succeed(range),
+      }),
+    encode: (range) => ParseResult.succeed(formatRange(range)),
+  },
+);
@@ -0,0 +1,98 @@
+/**
+ * Tournament blind schedules: blind levels advanced by hands dealt or by
+ * time on the clock.
+ *
+ * @module
+ */
+
+import { Duration, Option } from "effect";
+import { chipsToNumber } from "./brand";
+import type { ForcedBets } from "./stakes";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * One level of a blind schedule. A level ends after `hands` hands or once
+ * `duration` has passed, whichever comes first. The last level never ends.
+ */
+export interface BlindLevel {
+  readonly forcedBets: ForcedBets;
+  readonly hands?: number;
+  readonly duration?: Duration.DurationInput;
+}
+
+export interface BlindSchedule {
+  readonly levels: readonly BlindLevel[];
+}
+
+/** Where a table is in its schedule. */
+export interface BlindClock {
+  /** Index into `BlindSchedule.levels`. */
+  readonly level: number;
+  /** Table hand count when the level began. */
+  readonly startHand: number;
+  /** Clock time (ms) when the level began; none until the first hand. */
+  readonly startedAt: Option.Option<number>;
+}
+
+// ---------------------------------------------------------------------------
+// validateSchedule
+// ---------------------------------------------------------------------------
+
+/** Describe the first problem with a schedule, if any. */
+export function validateSchedule(schedule: BlindSchedule): Option.Option<string> {
+  if (schedule.levels.length === 0) {
+    return Option.some("blind schedule needs at least one level");
+  }
+
+  for (const [i, level] of schedule.levels.entries()) {
+    if (chipsToNumber(level.forcedBets.bigBlind) <= 0) {
+      return Option.some(`level ${i + 1} needs a positive big blind`);
+    }
+    if (level.hands !== undefined && !(Number.isInteger(level.hands) && level.hands >= 1)) {
+      return Option.some(`level ${i + 1} hands must be a positive integer, got ${level.hands}`);
+    }
+    if (level.duration !== undefined && Duration.toMillis(level.duration) <= 0) {
+      return Option.some(`level ${i + 1} duration must be positive`);
+    }
+  }
+
+  return Option.none();
+}
+
+// ---------------------------------------------------------------------------
+// advanceClock
+// ---------------------------------------------------------------------------
+
+/**
+ * Move the clock past every level that has ended by hand `handCount` at time
+ * `now`. A level that ran out of time hands its leftover time to the next.
+ */
+export function advanceClock(
+  schedule: BlindSchedule,
+  clock: BlindClock,
+  handCount: number,
+  now: number,
+): BlindClock {
+  let current: BlindClock = {
+    ...clock,
+    startedAt: Option.orElse(clock.startedAt, () => Option.some(now)),
+  };
+
+  for (;;) {
+    const level = schedule.levels[current.level];
+    if (level === undefined || current.level >= schedule.levels.length - 1) return current;
+
+    const startedAt = Option.getOrElse(current.startedAt, () => now);
+    const endsAt = level.duration !== undefined ? startedAt + Duration.toMillis(level.duration) : Infinity;
+    if (endsAt <= now) {
+      current = { level: current.level + 1, startHand: handCount, startedAt: Option.some(endsAt) };
+    } else if (level.hands !== undefined && handCount - current.startHand >= level.hands) {
+      current = { level: current.level + 1, startHand: handCount, startedAt: Option.some(now) };
+    } else {
+      return current;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Table stakes: the blinds and antes posted before a hand is dealt.
+ *
+ * Shared by hands, blind schedules and game events.
+ *
+ * @module
+ */
+
+import type { Chips } from "./brand";
+
+// ---------------------------------------------------------------------------
+// ForcedBets
+// ---------------------------------------------------------------------------
+
+/**
+ * Who pays the ante: every dealt-in player, or the big blind alone on behalf
+ * of the table (posted after the big blind itself).
+ */
+export type AnteMode = "PerPlayer" | "BigBlind";
+
+export interface ForcedBets {
+  readonly smallBlind: Chips;
+  readonly bigBlind: Chips;
+  readonly ante?: Chips;
+  readonly anteMode?: AnteMode;
+}
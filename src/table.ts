@@ -4,32 +4,46 @@
  * @module
  */
 
-import { Array as A, Effect, Either, HashMap, Option, pipe } from "effect";
+import { Array as A, Clock, Effect, Either, HashMap, HashSet, Option, pipe } from "effect";
 
-import type { Chips, SeatIndex } from "./brand";
+import type { Chips, PlayerId, SeatIndex } from "./brand";
 import {
+  Chips as makeChips,
   HandId as makeHandId,
+  SeatIndex as makeSeatIndex,
+  ZERO_CHIPS,
+  addChips,
+  maxChips,
   chipsToNumber,
   seatIndexToNumber,
   SeatIndexOrder,
 } from "./brand";
 import type { Player } from "./player";
 import { createPlayer, clearHand } from "./player";
-import type { Action, LegalActions } from "./action";
+import type { Action, BettingStructure, LegalActions } from "./action";
 import type { GameEvent } from "./event";
-import { PlayerSatDown, PlayerStoodUp } from "./event";
+import { BlindLevelChanged, ChipsAdded, PlayerSatDown, PlayerSatIn, PlayerSatOut, PlayerStoodUp } from "./event";
 import {
   SeatOccupied,
   SeatEmpty,
   TableFull,
+  InvalidBuyIn,
   NotEnoughPlayers,
   HandInProgress,
   NoHandInProgress,
   InvalidConfig,
 } from "./error";
 import type { PokerError } from "./error";
-import type { ForcedBets, HandState } from "./hand";
+import type { BombPot, HandOptions, HandState, MissedBlinds, Straddle } from "./hand";
+import type { ForcedBets } from "./stakes";
 import * as hand from "./hand";
+import type { Rake } from "./pot";
+import type { Variant } from "./variant";
+import { variantRules } from "./variant";
+import type { BlindClock, BlindSchedule } from "./schedule";
+import type { PrizeStructure } from "./payout";
+import { tableEquities } from "./payout";
+import { advanceClock, validateSchedule } from "./schedule";
 
 // ---------------------------------------------------------------------------
 // TableConfig
@@ -38,6 +52,50 @@ import * as hand from "./hand";
 export interface TableConfig {
   readonly maxSeats: number; // 2-10
   readonly forcedBets: ForcedBets;
+  /** Straddle the table allows; posted only on hands that opt in. */
+  readonly straddle?: Straddle;
+  /** Game dealt at the table. Defaults to `"Holdem"`. */
+  readonly variant?: Variant;
+  /** Bet sizing rules. Defaults to the variant's structure. */
+  readonly bettingStructure?: BettingStructure;
+  /** Fixed-limit raises allowed per street while 3+ players remain. Defaults to `DEFAULT_RAISE_CAP`. */
+  readonly raiseCap?: number;
+  /** Most times an all-in runout may be dealt. Defaults to 1 (run it once). */
+  readonly maxRunouts?: number;
+  /** Deal two boards every hand, each taking half of every pot. */
+  readonly doubleBoard?: boolean;
+  /** House rake taken from every hand's pots. */
+  readonly rake?: Rake;
+  /** Stand a sitting-out player up after they miss this many orbits. */
+  readonly maxSitOutOrbits?: number;
+  /** Smallest buy-in the table accepts. */
+  readonly minBuyIn?: BuyInLimit;
+  /** Largest stack a buy-in, rebuy or top-up may bring a player to. */
+  readonly maxBuyIn?: BuyInLimit;
+  /** Hands after leaving during which a player must return with at least the stack they left with. */
+  readonly ratholeHands?: number;
+  /** Keep busted players seated with no chips until they rebuy or stand up. */
+  readonly waitForRebuy?: boolean;
+  /** Chips bought by `addOn`, once per player and regardless of `maxBuyIn`. No add-on when unset. */
+  readonly addOn?: Chips;
+  /** Blind levels for tournaments. Replaces `forcedBets` with the current level's. */
+  readonly blindSchedule?: BlindSchedule;
+  /** Prize money paid at this table, for ICM equities in `StrategyContext`. */
+  readonly prizes?: PrizeStructure;
+}
+
+/** A buy-in limit in chips, or in big blinds of the table's forced bets. */
+export type BuyInLimit = Chips | { readonly bigBlinds: number };
+
+// ---------------------------------------------------------------------------
+// NextHandOptions
+// ---------------------------------------------------------------------------
+
+export interface NextHandOptions {
+  /** Post the table's configured straddle this hand. */
+  readonly straddle?: boolean;
+  /** Play this hand as a bomb pot instead of posting blinds. */
+  readonly bombPot?: BombPot;
 }
 
 // ---------------------------------------------------------------------------
@@ -51,6 +109,45 @@ export interface TableState {
   readonly currentHand: Option.Option<HandState>;
   readonly handCount: number;
   readonly events: readonly GameEvent[];
+  /** How many times each seat agrees to run an all-in board. */
+  readonly runItTimes: HashMap.HashMap<SeatIndex, number>;
+  /** Rake taken across every completed hand. */
+  readonly totalRake: Chips;
+  /** Where the last hand's blinds were, even if the small blind was dead. */
+  readonly blindPositions: Option.Option<BlindPositions>;
+  /** Blinds owed by each seat, posted when its player is next dealt in. */
+  readonly missedBlinds: HashMap.HashMap<SeatIndex, MissedBlinds>;
+  /** Seats sitting out, with the number of orbits each has missed. */
+  readonly sittingOut: HashMap.HashMap<SeatIndex, number>;
+  /** Seats waiting to sit out at the next hand or the next big blind. */
+  readonly sitOutRequests: HashMap.HashMap<SeatIndex, SitOutRequest>;
+  /** Chips bought during a hand, added to each stack when it ends. */
+  readonly pendingChips: HashMap.HashMap<SeatIndex, Chips>;
+  /** Seats whose player has taken the add-on. */
+  readonly addOnsTaken: HashSet.HashSet<SeatIndex>;
+  /** Who sits in each seat, for seats taken with a player id. */
+  readonly playerIds: HashMap.HashMap<SeatIndex, PlayerId>;
+  /** Stacks players left with, kept for the ratholing rule. */
+  readonly departures: HashMap.HashMap<PlayerId, Departure>;
+  /** Progress through `TableConfig.blindSchedule`, if the table has one. */
+  readonly blindClock: Option.Option<BlindClock>;
+  /** ICM equity of each seat for the current hand, when the table has `prizes`. */
+  readonly icmEquities: Option.Option<HashMap.HashMap<SeatIndex, number>>;
+}
+
+/** The stack a player left the table with, and when. */
+export interface Departure {
+  readonly chips: Chips;
+  readonly handCount: number;
+}
+
+/** When a pending sit-out takes effect. */
+export type SitOutRequest = "NextHand" | "NextBigBlind";
+
+/** Seats holding the small and big blind positions. */
+export interface BlindPositions {
+  readonly smallBlind: SeatIndex;
+  readonly bigBlind: SeatIndex;
 }
 
 // ---------------------------------------------------------------------------
@@ -68,25 +165,170 @@ export function createTable(
     );
   }
 
+  if (
+    config.straddle !== undefined &&
+    chipsToNumber(config.straddle.amount) <= chipsToNumber(config.forcedBets.bigBlind)
+  ) {
+    return Either.left(
+      new InvalidConfig({
+        reason: `straddle must be larger than the big blind, got ${config.straddle.amount}`,
+      }),
+    );
+  }
+
+  if (
+    config.raiseCap !== undefined &&
+    !(Number.isInteger(config.raiseCap) && config.raiseCap >= 1)
+  ) {
+    return Either.left(
+      new InvalidConfig({
+        reason: `raiseCap must be a positive integer, got ${config.raiseCap}`,
+      }),
+    );
+  }
+
+  if (
+    config.maxRunouts !== undefined &&
+    !(Number.isInteger(config.maxRunouts) && config.maxRunouts >= 1)
+  ) {
+    return Either.left(
+      new InvalidConfig({
+        reason: `maxRunouts must be a positive integer, got ${config.maxRunouts}`,
+      }),
+    );
+  }
+
+  if (
+    config.maxSitOutOrbits !== undefined &&
+    !(Number.isInteger(config.maxSitOutOrbits) && config.maxSitOutOrbits >= 1)
+  ) {
+    return Either.left(
+      new InvalidConfig({
+        reason: `maxSitOutOrbits must be a positive integer, got ${config.maxSitOutOrbits}`,
+      }),
+    );
+  }
+
+  // A full table's hole cards plus every board, each street with its burn card
+  const rules = variantRules(config.variant ?? "Holdem");
+  const cardsNeeded = rules.holeCardCount * config.maxSeats + (config.doubleBoard === true ? 2 : 1) * 8;
+  if (cardsNeeded > rules.cards.length) {
+    return Either.left(
+      new InvalidConfig({
+        reason: `a full table needs ${cardsNeeded} cards but the ${config.variant ?? "Holdem"} deck has ${rules.cards.length}`,
+      }),
+    );
+  }
+
+  if (config.addOn !== undefined && chipsToNumber(config.addOn) <= 0) {
+    return Either.left(new InvalidConfig({ reason: `addOn must be a positive amount, got ${config.addOn}` }));
+  }
+
+  const badLimit = [config.minBuyIn, config.maxBuyIn].find(
+    (limit) => limit !== undefined && typeof limit !== "number" && !(limit.bigBlinds > 0),
+  );
+  if (badLimit !== undefined && typeof badLimit !== "number") {
+    return Either.left(
+      new InvalidConfig({ reason: `buy-in limits in big blinds must be positive, got ${badLimit.bigBlinds}` }),
+    );
+  }
+
+  const minBuyIn = Option.map(buyInLimit(config, "minBuyIn"), chipsToNumber);
+  const maxBuyIn = Option.map(buyInLimit(config, "maxBuyIn"), chipsToNumber);
+  if (Option.isSome(minBuyIn) && Option.isSome(maxBuyIn) && minBuyIn.value > maxBuyIn.value) {
+    return Either.left(
+      new InvalidConfig({
+        reason: `minBuyIn must not exceed maxBuyIn, got ${minBuyIn.value} > ${maxBuyIn.value}`,
+      }),
+    );
+  }
+
+  if (
+    config.ratholeHands !== undefined &&
+    !(Number.isInteger(config.ratholeHands) && config.ratholeHands >= 1)
+  ) {
+    return Either.left(
+      new InvalidConfig({
+        reason: `ratholeHands must be a positive integer, got ${config.ratholeHands}`,
+      }),
+    );
+  }
+
+  const badSchedule = Option.flatMap(Option.fromNullable(config.blindSchedule), validateSchedule);
+  if (Option.isSome(badSchedule)) {
+    return Either.left(new InvalidConfig({ reason: badSchedule.value }));
+  }
+
+  if (config.prizes !== undefined && !config.prizes.every((prize) => prize >= 0)) {
+    return Either.left(new InvalidConfig({ reason: "prizes must be non-negative amounts" }));
+  }
+
+  if (config.rake !== undefined) {
+    const { percentage, caps = [] } = config.rake;
+    if (!(percentage >= 0 && percentage <= 100)) {
+      return Either.left(
+        new InvalidConfig({ reason: `rake percentage must be between 0 and 100, got ${percentage}` }),
+      );
+    }
+    const badCap = caps.find((c) => !Number.isInteger(c.players) || c.players < 2 || chipsToNumber(c.cap) < 0);
+    if (badCap !== undefined) {
+      return Either.left(
+        new InvalidConfig({
+          reason: `rake cap needs an integer player count of at least 2 and a non-negative cap, got ${badCap.players} players / ${badCap.cap}`,
+        }),
+      );
+    }
+  }
+
+  const firstLevel = config.blindSchedule?.levels[0];
+
   return Either.right({
-    config,
+    config: firstLevel !== undefined ? { ...config, forcedBets: firstLevel.forcedBets } : config,
     seats: HashMap.empty<SeatIndex, Player>(),
     button: Option.none(),
     currentHand: Option.none(),
     handCount: 0,
     events: [],
+    runItTimes: HashMap.empty<SeatIndex, number>(),
+    totalRake: ZERO_CHIPS,
+    blindPositions: Option.none(),
+    missedBlinds: HashMap.empty<SeatIndex, MissedBlinds>(),
+    sittingOut: HashMap.empty<SeatIndex, number>(),
+    sitOutRequests: HashMap.empty<SeatIndex, SitOutRequest>(),
+    pendingChips: HashMap.empty<SeatIndex, Chips>(),
+    addOnsTaken: HashSet.empty<SeatIndex>(),
+    playerIds: HashMap.empty<SeatIndex, PlayerId>(),
+    departures: HashMap.empty<PlayerId, Departure>(),
+    blindClock: firstLevel !== undefined
+      ? Option.some({ level: 0, startHand: 0, startedAt: Option.none() })
+      : Option.none(),
+    icmEquities: Option.none(),
   });
 }
 
+/** A configured buy-in limit in chips, rounding big-blind limits to whole chips. */
+function buyInLimit(config: TableConfig, which: "minBuyIn" | "maxBuyIn"): Option.Option<Chips> {
+  const limit = config[which];
+  if (limit === undefined) return Option.none();
+  if (typeof limit === "number") return Option.some(limit);
+  return Option.some(makeChips(Math.round(limit.bigBlinds * chipsToNumber(config.forcedBets.bigBlind))));
+}
+
 // ---------------------------------------------------------------------------
 // sitDown
 // ---------------------------------------------------------------------------
 
+/**
+ * Seat a player. The stack must be within the table's buy-in limits. Pass a
+ * `playerId` to apply the ratholing rule: within `ratholeHands` hands of
+ * leaving, a player must bring back at least the stack they left with.
+ */
 export function sitDown(
   state: TableState,
   seat: SeatIndex,
   chips: Chips,
-): Either.Either<TableState, SeatOccupied | TableFull> {
+  playerId?: PlayerId,
+): Either.Either<TableState, SeatOccupied | TableFull | InvalidBuyIn> {
   if (Option.isSome(HashMap.get(state.seats, seat))) {
     return Either.left(new SeatOccupied({ seat }));
   }
@@ -95,17 +337,67 @@ export function sitDown(
     return Either.left(new TableFull());
   }
 
+  if (chipsToNumber(chips) <= 0) {
+    return Either.left(new InvalidBuyIn({ seat, amount: chips, reason: "must buy in for a positive amount" }));
+  }
+
+  const departed = pipe(
+    Option.fromNullable(playerId),
+    Option.flatMap((id) => HashMap.get(state.departures, id)),
+    Option.filter((d) => state.handCount - d.handCount < (state.config.ratholeHands ?? 0)),
+    Option.map((d) => d.chips),
+  );
+  if (Option.isSome(departed) && chipsToNumber(chips) < chipsToNumber(departed.value)) {
+    return Either.left(
+      new InvalidBuyIn({
+        seat,
+        amount: chips,
+        reason: `left with ${departed.value} and must return with at least that`,
+      }),
+    );
+  }
+
+  // A returning player may bring back a stack above the maximum
+  const outOfRange = checkBuyIn(state.config, seat, chips, chips, Option.getOrElse(departed, () => ZERO_CHIPS));
+  if (Option.isSome(outOfRange)) return Either.left(outOfRange.value);
+
   const player = createPlayer(seat, chips);
   const newSeats = HashMap.set(state.seats, seat, player);
-  const event = PlayerSatDown({ seat, chips });
+  const event = PlayerSatDown({ seat, chips, ...(playerId !== undefined ? { playerId } : {}) });
 
   return Either.right({
     ...state,
     seats: newSeats,
+    playerIds: playerId !== undefined ? HashMap.set(state.playerIds, seat, playerId) : state.playerIds,
+    departures: playerId !== undefined ? HashMap.remove(state.departures, playerId) : state.departures,
     events: [...state.events, event],
   });
 }
 
+/**
+ * Check a buy-in of `amount` against the table's limits. The maximum applies
+ * to the `stack` it leaves the player with, and never falls below `ceiling`.
+ */
+function checkBuyIn(
+  config: TableConfig,
+  seat: SeatIndex,
+  amount: Chips,
+  stack: Chips,
+  ceiling: Chips = ZERO_CHIPS,
+): Option.Option<InvalidBuyIn> {
+  const min = buyInLimit(config, "minBuyIn");
+  if (Option.isSome(min) && chipsToNumber(amount) < chipsToNumber(min.value)) {
+    return Option.some(new InvalidBuyIn({ seat, amount, reason: `below the ${min.value} minimum buy-in` }));
+  }
+  const max = Option.map(buyInLimit(config, "maxBuyIn"), (m) => maxChips(m, ceiling));
+  if (Option.isSome(max) && chipsToNumber(stack) > chipsToNumber(max.value)) {
+    return Option.some(
+      new InvalidBuyIn({ seat, amount, reason: `stack would be ${stack}, above the ${max.value} maximum` }),
+    );
+  }
+  return Option.none();
+}
+
 // ---------------------------------------------------------------------------
 // standUp
 // ---------------------------------------------------------------------------
@@ -122,108 +414,598 @@ export function standUp(
     return Either.left(new HandInProgress());
   }
 
-  const newSeats = HashMap.remove(state.seats, seat);
   const event = PlayerStoodUp({ seat });
 
   return Either.right({
-    ...state,
-    seats: newSeats,
+    ...vacateSeat(state, seat),
     events: [...state.events, event],
   });
 }
 
+/**
+ * Clear a seat and everything tracked for it except missed blinds, which
+ * stay with the seat. Records the departing stack for the ratholing rule.
+ */
+function vacateSeat(state: TableState, seat: SeatIndex): TableState {
+  const playerId = HashMap.get(state.playerIds, seat);
+  const player = HashMap.get(state.seats, seat);
+  const departures =
+    Option.isSome(playerId) && Option.isSome(player) && state.config.ratholeHands !== undefined
+      ? HashMap.set(state.departures, playerId.value, { chips: player.value.chips, handCount: state.handCount })
+      : state.departures;
+
+  return {
+    ...state,
+    seats: HashMap.remove(state.seats, seat),
+    runItTimes: HashMap.remove(state.runItTimes, seat),
+    sittingOut: HashMap.remove(state.sittingOut, seat),
+    sitOutRequests: HashMap.remove(state.sitOutRequests, seat),
+    addOnsTaken: HashSet.remove(state.addOnsTaken, seat),
+    playerIds: HashMap.remove(state.playerIds, seat),
+    departures,
+  };
+}
+
 // ---------------------------------------------------------------------------
-// advanceButton — internal helper
+// sitOut / sitIn
 // ---------------------------------------------------------------------------
 
-function advanceButton(
-  currentButton: Option.Option<SeatIndex>,
-  seats: HashMap.HashMap<SeatIndex, Player>,
-): SeatIndex {
-  const sortedSeats = pipe(
-    HashMap.keys(seats),
-    (iter) => Array.from(iter),
-    A.sort(SeatIndexOrder),
-  );
+/**
+ * Sit a player out: they keep their seat and chips but are not dealt in.
+ * A player in the current hand must finish it first — use
+ * `setSitOutNextHand` instead.
+ */
+export function sitOut(
+  state: TableState,
+  seat: SeatIndex,
+): Either.Either<TableState, SeatEmpty | HandInProgress> {
+  if (Option.isNone(HashMap.get(state.seats, seat))) {
+    return Either.left(new SeatEmpty({ seat }));
+  }
 
-  if (sortedSeats.length === 0) {
-    // Should not happen in normal flow (checked before calling)
-    throw new Error("advanceButton called with no seated players");
+  const inHand = Option.exists(state.currentHand, (h) => h.players.some((p) => p.seatIndex === seat));
+  if (inHand) {
+    return Either.left(new HandInProgress());
   }
 
-  // Safe: we checked sortedSeats.length > 0 above
-  const first = sortedSeats[0];
-  if (first === undefined) {
-    throw new Error("advanceButton: sortedSeats[0] is undefined");
+  return Either.right(markSittingOut(state, seat));
+}
+
+/**
+ * Bring a sitting-out player back from the next hand and cancel any pending
+ * sit-out. They post any blinds they missed when dealt in.
+ */
+export function sitIn(
+  state: TableState,
+  seat: SeatIndex,
+): Either.Either<TableState, SeatEmpty> {
+  if (Option.isNone(HashMap.get(state.seats, seat))) {
+    return Either.left(new SeatEmpty({ seat }));
   }
 
-  return pipe(
-    currentButton,
+  const wasSittingOut = HashMap.has(state.sittingOut, seat);
+  return Either.right({
+    ...state,
+    sittingOut: HashMap.remove(state.sittingOut, seat),
+    sitOutRequests: HashMap.remove(state.sitOutRequests, seat),
+    events: wasSittingOut ? [...state.events, PlayerSatIn({ seat })] : state.events,
+  });
+}
+
+/** Sit out once the current hand ends (or at the next hand if none is running). */
+export function setSitOutNextHand(
+  state: TableState,
+  seat: SeatIndex,
+  enabled: boolean,
+): Either.Either<TableState, SeatEmpty> {
+  return setSitOutRequest(state, seat, "NextHand", enabled);
+}
+
+/** Keep playing until the big blind reaches this seat, then sit out instead of posting it. */
+export function setSitOutNextBigBlind(
+  state: TableState,
+  seat: SeatIndex,
+  enabled: boolean,
+): Either.Either<TableState, SeatEmpty> {
+  return setSitOutRequest(state, seat, "NextBigBlind", enabled);
+}
+
+function setSitOutRequest(
+  state: TableState,
+  seat: SeatIndex,
+  request: SitOutRequest,
+  enabled: boolean,
+): Either.Either<TableState, SeatEmpty> {
+  if (Option.isNone(HashMap.get(state.seats, seat))) {
+    return Either.left(new SeatEmpty({ seat }));
+  }
+
+  const current = HashMap.get(state.sitOutRequests, seat);
+  const sitOutRequests = enabled
+    ? HashMap.set(state.sitOutRequests, seat, request)
+    : Option.contains(current, request)
+      ? HashMap.remove(state.sitOutRequests, seat)
+      : state.sitOutRequests;
+  return Either.right({ ...state, sitOutRequests });
+}
+
+function markSittingOut(state: TableState, seat: SeatIndex): TableState {
+  const sitOutRequests = HashMap.remove(state.sitOutRequests, seat);
+  if (HashMap.has(state.sittingOut, seat)) return { ...state, sitOutRequests };
+  return {
+    ...state,
+    sittingOut: HashMap.set(state.sittingOut, seat, 0),
+    sitOutRequests,
+    events: [...state.events, PlayerSatOut({ seat })],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// topUp / rebuy / addOn
+// ---------------------------------------------------------------------------
+
+/**
+ * Add chips to a player's stack. The stack they started the hand with plus
+ * everything bought may not exceed `maxBuyIn`. Chips bought by a player in
+ * the current hand are added when it ends.
+ */
+export function topUp(
+  state: TableState,
+  seat: SeatIndex,
+  amount: Chips,
+): Either.Either<TableState, SeatEmpty | InvalidBuyIn> {
+  const player = HashMap.get(state.seats, seat);
+  if (Option.isNone(player)) {
+    return Either.left(new SeatEmpty({ seat }));
+  }
+  if (chipsToNumber(amount) <= 0) {
+    return Either.left(new InvalidBuyIn({ seat, amount, reason: "must add a positive amount" }));
+  }
+
+  const pending = Option.getOrElse(HashMap.get(state.pendingChips, seat), () => ZERO_CHIPS);
+  const stack = addChips(addChips(player.value.chips, pending), amount);
+  const maxBuyIn = buyInLimit(state.config, "maxBuyIn");
+  if (Option.isSome(maxBuyIn) && chipsToNumber(stack) > chipsToNumber(maxBuyIn.value)) {
+    return Either.left(
+      new InvalidBuyIn({ seat, amount, reason: `stack would be ${stack}, above the ${maxBuyIn.value} maximum` }),
+    );
+  }
+
+  return Either.right(creditChips(state, player.value, amount));
+}
+
+/**
+ * Buy back in after busting. Only a seat with no chips can rebuy, which
+ * needs `waitForRebuy` on the table, and the amount must be within its
+ * buy-in limits.
+ */
+export function rebuy(
+  state: TableState,
+  seat: SeatIndex,
+  amount: Chips,
+): Either.Either<TableState, SeatEmpty | InvalidBuyIn> {
+  const player = HashMap.get(state.seats, seat);
+  if (Option.isNone(player)) {
+    return Either.left(new SeatEmpty({ seat }));
+  }
+  if (chipsToNumber(player.value.chips) > 0 || HashMap.has(state.pendingChips, seat)) {
+    return Either.left(
+      new InvalidBuyIn({ seat, amount, reason: "only a busted player can rebuy; use topUp" }),
+    );
+  }
+
+  const minBuyIn = buyInLimit(state.config, "minBuyIn");
+  if (Option.isSome(minBuyIn) && chipsToNumber(amount) < chipsToNumber(minBuyIn.value)) {
+    return Either.left(
+      new InvalidBuyIn({ seat, amount, reason: `below the ${minBuyIn.value} minimum buy-in` }),
+    );
+  }
+
+  return topUp(state, seat, amount);
+}
+
+/**
+ * Buy the table's `addOn` stack. Each player may take it once while seated,
+ * and it is not capped by `maxBuyIn`. Like a top-up, it is added when the
+ * current hand ends if the player is in it.
+ */
+export function addOn(
+  state: TableState,
+  seat: SeatIndex,
+): Either.Either<TableState, SeatEmpty | InvalidBuyIn> {
+  const player = HashMap.get(state.seats, seat);
+  if (Option.isNone(player)) {
+    return Either.left(new SeatEmpty({ seat }));
+  }
+  const amount = state.config.addOn;
+  if (amount === undefined) {
+    return Either.left(new InvalidBuyIn({ seat, amount: ZERO_CHIPS, reason: "the table offers no add-on" }));
+  }
+  if (HashSet.has(state.addOnsTaken, seat)) {
+    return Either.left(new InvalidBuyIn({ seat, amount, reason: "the add-on has already been taken" }));
+  }
+
+  const credited = creditChips(state, player.value, amount);
+  return Either.right({ ...credited, addOnsTaken: HashSet.add(state.addOnsTaken, seat) });
+}
+
+function creditChips(state: TableState, player: Player, amount: Chips): TableState {
+  const seat = player.seatIndex;
+  const inHand = Option.exists(state.currentHand, (h) => h.players.some((p) => p.seatIndex === seat));
+  if (inHand) {
+    const pending = Option.getOrElse(HashMap.get(state.pendingChips, seat), () => ZERO_CHIPS);
+    return { ...state, pendingChips: HashMap.set(state.pendingChips, seat, addChips(pending, amount)) };
+  }
+
+  const chips = addChips(player.chips, amount);
+  return {
+    ...state,
+    seats: HashMap.set(state.seats, seat, { ...player, chips }),
+    events: [...state.events, ChipsAdded({ seat, amount, chips })],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// setRunItTimes
+// ---------------------------------------------------------------------------
+
+/**
+ * Record how many times a seated player agrees to run the board when all-in.
+ * A runout is dealt the fewest times any live player agreed to, capped by
+ * `TableConfig.maxRunouts`.
+ */
+export function setRunItTimes(
+  state: TableState,
+  seat: SeatIndex,
+  times: number,
+): Either.Either<TableState, SeatEmpty | InvalidConfig> {
+  if (Option.isNone(HashMap.get(state.seats, seat))) {
+    return Either.left(new SeatEmpty({ seat }));
+  }
+
+  if (!Number.isInteger(times) || times < 1) {
+    return Either.left(
+      new InvalidConfig({ reason: `run-it times must be a positive integer, got ${times}` }),
+    );
+  }
+
+  const runItTimes = HashMap.set(state.runItTimes, seat, times);
+  const currentHand = Option.map(state.currentHand, (h) => ({
+    ...h,
+    runItTimes: HashMap.set(h.runItTimes, seat, times),
+  }));
+  return Either.right({ ...state, runItTimes, currentHand });
+}
+
+// ---------------------------------------------------------------------------
+// Dead button — internal helpers
+// ---------------------------------------------------------------------------
+
+/** First seat clockwise after `from` among `seats` (sorted ascending). */
+function nextSeat(seats: readonly SeatIndex[], from: SeatIndex): SeatIndex {
+  const next = seats.find((s) => seatIndexToNumber(s) > seatIndexToNumber(from)) ?? seats[0];
+  if (next === undefined) throw new Error("nextSeat called with no seats");
+  return next;
+}
+
+function unsafeFirst(seats: readonly SeatIndex[]): SeatIndex {
+  const first = seats[0];
+  if (first === undefined) throw new Error("seatNextHand called with no seated players");
+  return first;
+}
+
+/** First seat counter-clockwise before `from` among `seats` (sorted ascending). */
+function previousSeat(seats: readonly SeatIndex[], from: SeatIndex): SeatIndex {
+  const prev = [...seats].reverse().find((s) => seatIndexToNumber(s) < seatIndexToNumber(from)) ?? seats[seats.length - 1];
+  if (prev === undefined) throw new Error("previousSeat called with no seats");
+  return prev;
+}
+
+interface HandSeating {
+  readonly button: SeatIndex;
+  readonly blinds: BlindPositions;
+  readonly dealtIn: readonly SeatIndex[];
+}
+
+/**
+ * Place the button and blinds for the next hand. With three or more players
+ * the big blind moves to the next dealt-in player, the small blind takes the
+ * last big blind's seat and the button the last small blind's, even when
+ * those seats are now empty. A player who owes blinds sits out a hand that
+ * would put them on the small blind. First hands and heads-up hands place
+ * the blinds after a button that moves to the next player.
+ */
+function seatNextHand(state: TableState, eligible: readonly SeatIndex[]): HandSeating {
+  if (Option.isSome(state.blindPositions) && eligible.length >= 3) {
+    const prev = state.blindPositions.value;
+    const dealtIn = eligible.filter(
+      (s) => !(s === prev.bigBlind && HashMap.has(state.missedBlinds, s)),
+    );
+    if (dealtIn.length >= 3) {
+      const bigBlind = nextSeat(dealtIn, prev.bigBlind);
+      // New players between the blinds can push the big blind onto the old small blind
+      const button = bigBlind === prev.smallBlind ? previousSeat(dealtIn, prev.bigBlind) : prev.smallBlind;
+      return { button, blinds: { smallBlind: prev.bigBlind, bigBlind }, dealtIn };
+    }
+  }
+
+  const button = pipe(
+    state.button,
     Option.match({
-      onNone: () => first,
-      onSome: (btn) => {
-        const currentIdx = sortedSeats.findIndex(
-          (s) => seatIndexToNumber(s) > seatIndexToNumber(btn),
-        );
-        if (currentIdx === -1) {
-          return first;
-        }
-        const next = sortedSeats[currentIdx];
-        if (next === undefined) {
-          throw new Error("advanceButton: sortedSeats[currentIdx] is undefined");
-        }
-        return next;
-      },
+      onNone: () => unsafeFirst(eligible),
+      onSome: (btn) => nextSeat(eligible, btn),
     }),
   );
+  if (eligible.length === 2) {
+    return { button, blinds: { smallBlind: button, bigBlind: nextSeat(eligible, button) }, dealtIn: eligible };
+  }
+  const smallBlind = nextSeat(eligible, button);
+  return { button, blinds: { smallBlind, bigBlind: nextSeat(eligible, smallBlind) }, dealtIn: eligible };
+}
+
+/** Seats the big blind moved past without dealing them in, empty or not. */
+function skippedSeats(state: TableState, seating: HandSeating): readonly SeatIndex[] {
+  if (Option.isNone(state.blindPositions)) return [];
+  const { maxSeats } = state.config;
+  const from = seatIndexToNumber(state.blindPositions.value.bigBlind);
+  const to = seatIndexToNumber(seating.blinds.bigBlind);
+  const skipped: SeatIndex[] = [];
+  for (let n = (from + 1) % maxSeats; n !== to && n !== from; n = (n + 1) % maxSeats) {
+    const seat = makeSeatIndex(n);
+    if (!seating.dealtIn.includes(seat)) skipped.push(seat);
+  }
+  return skipped;
+}
+
+/**
+ * Update missed blinds once a hand is seated. Dealt-in players have posted
+ * what they owed. A small blind nobody could post is recorded against its
+ * seat, and a seat the big blind skipped owes both blinds.
+ */
+function recordMissedBlinds(
+  state: TableState,
+  seating: HandSeating,
+  clearDealtIn: boolean,
+): HashMap.HashMap<SeatIndex, MissedBlinds> {
+  const isDealtIn = (seat: SeatIndex) => seating.dealtIn.includes(seat);
+  let missed = clearDealtIn
+    ? HashMap.filter(state.missedBlinds, (_, seat) => !isDealtIn(seat))
+    : state.missedBlinds;
+  if (Option.isNone(state.blindPositions)) return missed;
+
+  const miss = (seat: SeatIndex, blinds: Partial<MissedBlinds>) => {
+    const owed = Option.getOrElse(HashMap.get(missed, seat), () => ({ smallBlind: false, bigBlind: false }));
+    missed = HashMap.set(missed, seat, { ...owed, ...blinds });
+  };
+
+  if (!isDealtIn(seating.blinds.smallBlind)) miss(seating.blinds.smallBlind, { smallBlind: true });
+  for (const seat of skippedSeats(state, seating)) {
+    miss(seat, { smallBlind: true, bigBlind: true });
+  }
+  return missed;
+}
+
+/**
+ * Count an orbit against every sitting-out player the big blind passed, and
+ * stand up anyone who reached `TableConfig.maxSitOutOrbits`.
+ */
+function tallySitOutOrbits(state: TableState, skipped: readonly SeatIndex[]): TableState {
+  let table = state;
+  for (const seat of skipped) {
+    const orbits = HashMap.get(table.sittingOut, seat);
+    if (Option.isNone(orbits)) continue;
+    const missed = orbits.value + 1;
+    const max = table.config.maxSitOutOrbits;
+    table = max !== undefined && missed >= max
+      ? { ...vacateSeat(table, seat), events: [...table.events, PlayerStoodUp({ seat })] }
+      : { ...table, sittingOut: HashMap.set(table.sittingOut, seat, missed) };
+  }
+  return table;
 }
 
 // ---------------------------------------------------------------------------
 // startNextHand
 // ---------------------------------------------------------------------------
 
+/**
+ * Start the next hand. On a table with a blind schedule, the level is
+ * brought up to date first, reading the time from Effect's `Clock`.
+ */
 export function startNextHand(
   state: TableState,
+  options: NextHandOptions = {},
+): Effect.Effect<TableState, PokerError> {
+  const schedule = state.config.blindSchedule;
+  if (schedule === undefined || Option.isSome(state.currentHand)) {
+    return dealNextHand(state, options);
+  }
+  return Effect.flatMap(Clock.currentTimeMillis, (now) =>
+    dealNextHand(updateBlindLevel(state, schedule, now), options),
+  );
+}
+
+function updateBlindLevel(state: TableState, schedule: BlindSchedule, now: number): TableState {
+  const clock = Option.getOrElse(state.blindClock, (): BlindClock => ({
+    level: 0,
+    startHand: state.handCount,
+    startedAt: Option.none(),
+  }));
+  const next = advanceClock(schedule, clock, state.handCount, now);
+  const level = schedule.levels[next.level];
+  if (next.level === clock.level || level === undefined) {
+    return { ...state, blindClock: Option.some(next) };
+  }
+
+  return {
+    ...state,
+    config: { ...state.config, forcedBets: level.forcedBets },
+    blindClock: Option.some(next),
+    events: [...state.events, BlindLevelChanged({ level: next.level + 1, forcedBets: level.forcedBets })],
+  };
+}
+
+function dealNextHand(
+  state: TableState,
+  options: NextHandOptions,
 ): Effect.Effect<TableState, PokerError> {
   if (Option.isSome(state.currentHand)) {
     return Effect.fail(new HandInProgress());
   }
 
-  const eligiblePlayers = pipe(
-    HashMap.values(state.seats),
-    (iter) => Array.from(iter),
-    A.filter((p) => chipsToNumber(p.chips) > 0),
-  );
-
-  if (eligiblePlayers.length < 2) {
+  if (options.straddle === true && state.config.straddle === undefined) {
     return Effect.fail(
-      new NotEnoughPlayers({ count: eligiblePlayers.length, minimum: 2 }),
+      new InvalidConfig({ reason: "straddle requested but the table has no straddle configured" }),
     );
   }
 
-  const newButton = advanceButton(state.button, state.seats);
+  if (options.bombPot !== undefined) {
+    if (chipsToNumber(options.bombPot.ante) <= 0) {
+      return Effect.fail(
+        new InvalidConfig({ reason: `bomb pot ante must be positive, got ${options.bombPot.ante}` }),
+      );
+    }
+    if (options.straddle === true) {
+      return Effect.fail(new InvalidConfig({ reason: "cannot straddle a bomb pot" }));
+    }
+  }
+
+  // "Sit out next hand" requests take effect before anyone is dealt in
+  let table = HashMap.reduce(state.sitOutRequests, state, (acc, request, seat) =>
+    request === "NextHand" ? markSittingOut(acc, seat) : acc,
+  );
+  const eligibleSeats = (t: TableState): readonly SeatIndex[] =>
+    pipe(
+      Array.from(HashMap.values(t.seats)),
+      A.filter((p) => chipsToNumber(p.chips) > 0 && !HashMap.has(t.sittingOut, p.seatIndex)),
+      A.map((p) => p.seatIndex),
+      A.sort(SeatIndexOrder),
+    );
+
+  let eligible = eligibleSeats(table);
+  if (eligible.length < 2) {
+    return Effect.fail(new NotEnoughPlayers({ count: eligible.length, minimum: 2 }));
+  }
+  let seating = seatNextHand(table, eligible);
+
+  // A player waiting for their next big blind sits out instead of posting it
+  while (Option.contains(HashMap.get(table.sitOutRequests, seating.blinds.bigBlind), "NextBigBlind")) {
+    table = markSittingOut(table, seating.blinds.bigBlind);
+    eligible = eligibleSeats(table);
+    if (eligible.length < 2) {
+      return Effect.fail(new NotEnoughPlayers({ count: eligible.length, minimum: 2 }));
+    }
+    seating = seatNextHand(table, eligible);
+  }
 
   const players = pipe(
-    eligiblePlayers,
+    Array.from(HashMap.values(table.seats)),
+    A.filter((p) => seating.dealtIn.includes(p.seatIndex)),
     A.map(clearHand),
     A.sort((a: Player, b: Player) =>
       SeatIndexOrder(a.seatIndex, b.seatIndex),
     ),
   );
+  const owed = HashMap.filter(table.missedBlinds, (_, seat) => seating.dealtIn.includes(seat));
+  const { smallBlind, bigBlind } = seating.blinds;
 
-  const handId = makeHandId(`hand_${state.handCount + 1}`);
+  const handId = makeHandId(`hand_${table.handCount + 1}`);
+
+  const handOptions: HandOptions = {
+    ...(table.config.variant !== undefined ? { variant: table.config.variant } : {}),
+    ...(table.config.bettingStructure !== undefined
+      ? { bettingStructure: table.config.bettingStructure }
+      : {}),
+    ...(table.config.raiseCap !== undefined ? { raiseCap: table.config.raiseCap } : {}),
+    ...(table.config.maxRunouts !== undefined
+      ? { maxRunouts: table.config.maxRunouts, runItTimes: table.runItTimes }
+      : {}),
+    ...(table.config.doubleBoard === true ? { doubleBoard: true } : {}),
+    ...(table.config.rake !== undefined ? { rake: table.config.rake } : {}),
+    ...(options.bombPot !== undefined ? { bombPot: options.bombPot } : {}),
+    ...(options.straddle === true && table.config.straddle !== undefined
+      ? { straddle: table.config.straddle }
+      : {}),
+    ...(players.length >= 3
+      ? { blinds: { ...(seating.dealtIn.includes(smallBlind) ? { smallBlind } : {}), bigBlind } }
+      : {}),
+    ...(HashMap.size(owed) > 0 ? { missedBlinds: owed } : {}),
+  };
 
   return Effect.map(
-    hand.startHand(players, newButton, state.config.forcedBets, handId),
-    (handState) => ({
-      ...state,
-      button: Option.some(newButton),
-      currentHand: Option.some(handState),
-      handCount: state.handCount + 1,
-    }),
+    hand.startHand(players, seating.button, table.config.forcedBets, handId, handOptions),
+    // Forced bets can leave nobody to act, finishing the hand as it is dealt
+    (handState) => {
+      const dealt: TableState = {
+        ...tallySitOutOrbits(table, skippedSeats(table, seating)),
+        button: Option.some(seating.button),
+        blindPositions: Option.some(seating.blinds),
+        missedBlinds: recordMissedBlinds(table, seating, options.bombPot === undefined),
+        handCount: table.handCount + 1,
+      };
+      // Stacks only change between hands, so ICM is worked out once per hand
+      const icmEquities = Option.map(Option.fromNullable(table.config.prizes), (prizes) =>
+        tableEquities(dealt, prizes),
+      );
+      return settleHand({ ...dealt, icmEquities }, handState);
+    },
   );
 }
 
+// ---------------------------------------------------------------------------
+// settleHand — fold a finished hand back into the table
+// ---------------------------------------------------------------------------
+
+/**
+ * Store the hand as the current one, or, once it is complete, copy its
+ * stacks back to the seats, add its rake and vacate busted seats.
+ */
+function settleHand(state: TableState, handState: HandState): TableState {
+  if (!hand.isComplete(handState)) {
+    return { ...state, currentHand: Option.some(handState) };
+  }
+
+  let newSeats = state.seats;
+  const busted: SeatIndex[] = [];
+  const chipEvents: GameEvent[] = [];
+
+  for (const handPlayer of handState.players) {
+    const seatedPlayer = HashMap.get(newSeats, handPlayer.seatIndex);
+    if (Option.isSome(seatedPlayer)) {
+      const pending = HashMap.get(state.pendingChips, handPlayer.seatIndex);
+      const updatedPlayer: Player = {
+        ...clearHand(seatedPlayer.value),
+        chips: Option.match(pending, {
+          onNone: () => handPlayer.chips,
+          onSome: (amount) => addChips(handPlayer.chips, amount),
+        }),
+      };
+      if (Option.isSome(pending)) {
+        chipEvents.push(
+          ChipsAdded({ seat: handPlayer.seatIndex, amount: pending.value, chips: updatedPlayer.chips }),
+        );
+      }
+
+      newSeats = HashMap.set(newSeats, handPlayer.seatIndex, updatedPlayer);
+      if (chipsToNumber(updatedPlayer.chips) === 0 && state.config.waitForRebuy !== true) {
+        busted.push(handPlayer.seatIndex);
+      }
+    }
+  }
+
+  const handEvents = hand.getEvents(handState);
+
+  const completed: TableState = {
+    ...state,
+    seats: newSeats,
+    pendingChips: HashMap.empty<SeatIndex, Chips>(),
+    totalRake: addChips(state.totalRake, handState.rakeTaken),
+    currentHand: Option.none(),
+    icmEquities: Option.none(),
+    events: [...state.events, ...handEvents, ...chipEvents],
+  };
+  return busted.reduce(vacateSeat, completed);
+}
+
 // ---------------------------------------------------------------------------
 // act
 // ---------------------------------------------------------------------------
@@ -239,41 +1021,7 @@ export function act(
 
   const result = hand.act(state.currentHand.value, seat, action);
 
-  return Either.map(result, (newHandState) => {
-    if (hand.isComplete(newHandState)) {
-      let newSeats = state.seats;
-
-      for (const handPlayer of newHandState.players) {
-        const seatedPlayer = HashMap.get(newSeats, handPlayer.seatIndex);
-        if (Option.isSome(seatedPlayer)) {
-          const updatedPlayer: Player = {
-            ...clearHand(seatedPlayer.value),
-            chips: handPlayer.chips,
-          };
-
-          if (chipsToNumber(updatedPlayer.chips) === 0) {
-            newSeats = HashMap.remove(newSeats, handPlayer.seatIndex);
-          } else {
-            newSeats = HashMap.set(newSeats, handPlayer.seatIndex, updatedPlayer);
-          }
-        }
-      }
-
-      const handEvents = hand.getEvents(newHandState);
-
-      return {
-        ...state,
-        seats: newSeats,
-        currentHand: Option.none(),
-        events: [...state.events, ...handEvents],
-      };
-    }
-
-    return {
-      ...state,
-      currentHand: Option.some(newHandState),
-    };
-  });
+  return Either.map(result, (newHandState) => settleHand(state, newHandState));
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,402 @@
+/**
+ * Multi-table tournaments: seat entrants across tables, play every table's
+ * hands concurrently, balance and break tables as players bust, and record
+ * finishing positions.
+ *
+ * @module
+ */
+
+import { Array as A, Data, Effect, Either, HashMap, Option, Order, pipe } from "effect";
+
+import type { Chips, PlayerId, SeatIndex } from "./brand";
+import { SeatIndex as makeSeatIndex, chipsToNumber, seatIndexToNumber } from "./brand";
+import { InvalidConfig, InvalidGameState } from "./error";
+import type { PokerError } from "./error";
+import type { TableConfig, TableState } from "./table";
+import { createTable, sitDown, standUp } from "./table";
+import type { PlayHandOptions, Strategy } from "./loop";
+import { playHand } from "./loop";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export interface TournamentConfig {
+  /** Everyone who entered, in seating order. */
+  readonly entrants: readonly PlayerId[];
+  readonly startingStack: Chips;
+  /** Config shared by every table; `maxSeats` is the table size. */
+  readonly table: TableConfig;
+}
+
+// ---------------------------------------------------------------------------
+// TournamentEvent
+// ---------------------------------------------------------------------------
+
+export type TournamentEvent = Data.TaggedEnum<{
+  PlayerMoved: { readonly player: PlayerId; readonly from: number; readonly to: number; readonly seat: SeatIndex };
+  TableBroken: { readonly table: number };
+  FinalTableFormed: { readonly table: number };
+  PlayerFinished: { readonly player: PlayerId; readonly position: number };
+}>;
+
+export const PlayerMoved = Data.tagged<Extract<TournamentEvent, { _tag: "PlayerMoved" }>>("PlayerMoved");
+export const TableBroken = Data.tagged<Extract<TournamentEvent, { _tag: "TableBroken" }>>("TableBroken");
+export const FinalTableFormed = Data.tagged<Extract<TournamentEvent, { _tag: "FinalTableFormed" }>>("FinalTableFormed");
+export const PlayerFinished = Data.tagged<Extract<TournamentEvent, { _tag: "PlayerFinished" }>>("PlayerFinished");
+
+// ---------------------------------------------------------------------------
+// TournamentState
+// ---------------------------------------------------------------------------
+
+export interface Finish {
+  readonly player: PlayerId;
+  /** 1 for the winner. */
+  readonly position: number;
+}
+
+export interface TournamentState {
+  readonly config: TournamentConfig;
+  /** Tables still in play, by table number. */
+  readonly tables: HashMap.HashMap<number, TableState>;
+  /** Finishing positions, in the order players went out. */
+  readonly finishes: readonly Finish[];
+  /** Rounds played; every table deals one hand per round. */
+  readonly rounds: number;
+  readonly events: readonly TournamentEvent[];
+}
+
+export interface PlayTournamentOptions extends PlayHandOptions {
+  readonly maxRounds?: number; // default 100_000
+}
+
+// ---------------------------------------------------------------------------
+// createTournament
+// ---------------------------------------------------------------------------
+
+/**
+ * Seat every entrant, spreading them over as few tables as will hold them so
+ * that table sizes differ by at most one.
+ */
+export function createTournament(
+  config: TournamentConfig,
+): Either.Either<TournamentState, InvalidConfig> {
+  const { entrants, table } = config;
+  if (entrants.length < 2) {
+    return Either.left(new InvalidConfig({ reason: `a tournament needs at least 2 entrants, got ${entrants.length}` }));
+  }
+  if (new Set(entrants).size !== entrants.length) {
+    return Either.left(new InvalidConfig({ reason: "tournament entrants must be unique" }));
+  }
+  // Two-seat tables can leave a table with a single player once the field is odd
+  if (table.maxSeats < 3) {
+    return Either.left(new InvalidConfig({ reason: `tournament tables need at least 3 seats, got ${table.maxSeats}` }));
+  }
+  if (chipsToNumber(config.startingStack) <= 0) {
+    return Either.left(new InvalidConfig({ reason: `starting stack must be positive, got ${config.startingStack}` }));
+  }
+  if (
+    table.minBuyIn !== undefined ||
+    table.maxBuyIn !== undefined ||
+    table.ratholeHands !== undefined ||
+    table.waitForRebuy === true ||
+    table.addOn !== undefined
+  ) {
+    return Either.left(new InvalidConfig({ reason: "tournament tables take no buy-in limits, rebuys or add-ons" }));
+  }
+
+  const tableCount = Math.ceil(entrants.length / table.maxSeats);
+  let tables = HashMap.empty<number, TableState>();
+  for (let t = 1; t <= tableCount; t++) {
+    const created = createTable(table);
+    if (Either.isLeft(created)) return Either.left(created.left);
+    tables = HashMap.set(tables, t, created.right);
+  }
+
+  for (const [i, player] of entrants.entries()) {
+    const number = (i % tableCount) + 1;
+    const seat = makeSeatIndex(Math.floor(i / tableCount));
+    const seated = sitDown(unsafeTable(tables, number), seat, config.startingStack, player);
+    // Seats and stacks were checked above, so seating cannot fail
+    if (Either.isLeft(seated)) {
+      return Either.left(new InvalidConfig({ reason: `could not seat ${player}: ${seated.left._tag}` }));
+    }
+    tables = HashMap.set(tables, number, seated.right);
+  }
+
+  return Either.right({ config, tables, finishes: [], rounds: 0, events: [] });
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** Players still in the tournament, with their stacks. */
+export function remainingPlayers(state: TournamentState): HashMap.HashMap<PlayerId, Chips> {
+  let players = HashMap.empty<PlayerId, Chips>();
+  for (const table of HashMap.values(state.tables)) {
+    for (const [, player, chips] of seatedPlayers(table)) {
+      players = HashMap.set(players, player, chips);
+    }
+  }
+  return players;
+}
+
+export function isFinished(state: TournamentState): boolean {
+  return state.finishes.length === state.config.entrants.length;
+}
+
+// ---------------------------------------------------------------------------
+// playRound
+// ---------------------------------------------------------------------------
+
+/**
+ * Play one hand at every table, each in its own fiber, then record who
+ * busted and rebalance the tables.
+ */
+export const playRound =
+  (strategy: Strategy, opts?: PlayHandOptions) => {
+    const runHand = playHand(strategy, opts);
+
+    return (state: TournamentState): Effect.Effect<TournamentState, PokerError> => {
+      const stacks = remainingPlayers(state);
+
+      return pipe(
+        Effect.forEach(
+          HashMap.toEntries(state.tables),
+          ([number, table]) =>
+            pipe(
+              runHand(table),
+              Effect.flatMap((result) =>
+                result.completed
+                  ? Effect.succeed([number, result.state] as const)
+                  : Effect.fail(
+                      new InvalidGameState({
+                        state: `table ${number}`,
+                        reason: "hand did not finish within maxActionsPerHand",
+                      }),
+                    ),
+              ),
+            ),
+          { concurrency: "unbounded" },
+        ),
+        Effect.map((played) => ({ ...state, tables: HashMap.fromIterable(played), rounds: state.rounds + 1 })),
+        Effect.flatMap((played) =>
+          pipe(
+            recordFinishes(played, stacks),
+            Either.flatMap(balanceTables),
+            Either.match({
+              onLeft: (e) => Effect.fail(e),
+              onRight: (s) => Effect.succeed(s),
+            }),
+          ),
+        ),
+      );
+    };
+  };
+
+// ---------------------------------------------------------------------------
+// playTournament
+// ---------------------------------------------------------------------------
+
+/** Play rounds until one player has every chip or `maxRounds` is reached. */
+export const playTournament =
+  (strategy: Strategy, opts?: PlayTournamentOptions) => {
+    const maxRounds = opts?.maxRounds ?? 100_000;
+    const round = playRound(strategy, opts);
+
+    return (state: TournamentState): Effect.Effect<TournamentState, PokerError> =>
+      Effect.iterate(state, {
+        while: (s) => !isFinished(s) && s.rounds < maxRounds,
+        body: round,
+      });
+  };
+
+// ---------------------------------------------------------------------------
+// Finishing positions — internal
+// ---------------------------------------------------------------------------
+
+/**
+ * Record everyone who busted this round. Players who bust in the same round
+ * finish in order of the stacks they started it with, biggest first.
+ */
+function recordFinishes(
+  state: TournamentState,
+  stacksBefore: HashMap.HashMap<PlayerId, Chips>,
+): Either.Either<TournamentState, PokerError> {
+  let tables = state.tables;
+  // Busted players a table kept seated are stood up here
+  for (const [number, table] of HashMap.entries(state.tables)) {
+    for (const [seat, , chips] of seatedPlayers(table)) {
+      if (chipsToNumber(chips) > 0) continue;
+      const stood = standUp(unsafeTable(tables, number), seat);
+      if (Either.isLeft(stood)) return Either.left(stood.left);
+      tables = HashMap.set(tables, number, stood.right);
+    }
+  }
+
+  const stoodUp = { ...state, tables };
+  const remaining = remainingPlayers(stoodUp);
+  const busted = pipe(
+    Array.from(HashMap.entries(stacksBefore)),
+    A.filter(([player]) => !HashMap.has(remaining, player)),
+    A.sort(Order.mapInput(Order.number, ([, chips]: readonly [PlayerId, Chips]) => chipsToNumber(chips))),
+  );
+
+  let position = HashMap.size(stacksBefore);
+  const finishes: Finish[] = [];
+  for (const [player] of busted) {
+    finishes.push({ player, position });
+    position--;
+  }
+  // The last player standing wins
+  if (HashMap.size(remaining) === 1) {
+    for (const player of HashMap.keys(remaining)) {
+      finishes.push({ player, position: 1 });
+    }
+  }
+
+  return Either.right({
+    ...stoodUp,
+    finishes: [...state.finishes, ...finishes],
+    events: [...state.events, ...finishes.map((f) => PlayerFinished(f))],
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Table balancing — internal
+// ---------------------------------------------------------------------------
+
+/**
+ * Break a table whenever the others can seat its players, then move players
+ * from the fullest table to the emptiest until sizes differ by at most one.
+ */
+function balanceTables(state: TournamentState): Either.Either<TournamentState, PokerError> {
+  const tableSize = state.config.table.maxSeats;
+  let current = state;
+
+  for (;;) {
+    const bySize = pipe(
+      HashMap.toEntries(current.tables),
+      A.map(([number, table]) => [number, HashMap.size(table.seats)] as const),
+      A.sort(
+        Order.combine(
+          Order.mapInput(Order.number, ([, size]: readonly [number, number]) => size),
+          Order.mapInput(Order.reverse(Order.number), ([number]: readonly [number, number]) => number),
+        ),
+      ),
+    );
+    const smallest = bySize[0];
+    const largest = bySize[bySize.length - 1];
+    if (smallest === undefined || largest === undefined || bySize.length === 1) return Either.right(current);
+
+    const total = bySize.reduce((sum, [, size]) => sum + size, 0);
+    if (total <= (bySize.length - 1) * tableSize) {
+      const broken = breakTable(current, smallest[0]);
+      if (Either.isLeft(broken)) return broken;
+      current = broken.right;
+      continue;
+    }
+
+    if (largest[1] - smallest[1] <= 1) return Either.right(current);
+    const moved = movePlayer(current, largest[0], nextBigBlind(unsafeTable(current.tables, largest[0])), smallest[0]);
+    if (Either.isLeft(moved)) return moved;
+    current = moved.right;
+  }
+}
+
+/** Move every player at a table to the emptiest of the others. */
+function breakTable(state: TournamentState, number: number): Either.Either<TournamentState, PokerError> {
+  let current = state;
+  for (const [seat] of seatedPlayers(unsafeTable(state.tables, number))) {
+    const target = pipe(
+      HashMap.toEntries(current.tables),
+      A.filter(([n]) => n !== number),
+      A.sort(Order.mapInput(Order.number, ([, table]: readonly [number, TableState]) => HashMap.size(table.seats))),
+      A.head,
+    );
+    if (Option.isNone(target)) break;
+    const moved = movePlayer(current, number, seat, target.value[0]);
+    if (Either.isLeft(moved)) return moved;
+    current = moved.right;
+  }
+
+  const tables = HashMap.remove(current.tables, number);
+  const events: TournamentEvent[] = [TableBroken({ table: number })];
+  if (HashMap.size(tables) === 1) {
+    for (const final of HashMap.keys(tables)) events.push(FinalTableFormed({ table: final }));
+  }
+  return Either.right({ ...current, tables, events: [...current.events, ...events] });
+}
+
+/** Move a player with their stack to the first empty seat at another table. */
+function movePlayer(
+  state: TournamentState,
+  from: number,
+  seat: SeatIndex,
+  to: number,
+): Either.Either<TournamentState, PokerError> {
+  const source = unsafeTable(state.tables, from);
+  const target = unsafeTable(state.tables, to);
+  const moving = pipe(
+    seatedPlayers(source),
+    A.findFirst(([s]) => s === seat),
+  );
+  const emptySeat = pipe(
+    A.makeBy(target.config.maxSeats, makeSeatIndex),
+    A.findFirst((s) => !HashMap.has(target.seats, s)),
+  );
+  if (Option.isNone(moving) || Option.isNone(emptySeat)) {
+    return Either.left(
+      new InvalidGameState({ state: `table ${from}`, reason: `cannot move seat ${seat} to table ${to}` }),
+    );
+  }
+
+  const [, player, chips] = moving.value;
+  return pipe(
+    standUp(source, seat),
+    Either.flatMap((left) =>
+      Either.map(sitDown(target, emptySeat.value, chips, player), (joined) => ({ left, joined })),
+    ),
+    Either.map(({ left, joined }) => ({
+      ...state,
+      tables: pipe(
+        state.tables,
+        HashMap.set(from, left),
+        // A moved player owes nothing for blinds missed at the seat they take
+        HashMap.set(to, { ...joined, missedBlinds: HashMap.remove(joined.missedBlinds, emptySeat.value) }),
+      ),
+      events: [...state.events, PlayerMoved({ player, from, to, seat: emptySeat.value })],
+    })),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers — internal
+// ---------------------------------------------------------------------------
+
+/** Seated players with an id, as `[seat, player, chips]`. */
+function seatedPlayers(table: TableState): readonly (readonly [SeatIndex, PlayerId, Chips])[] {
+  return pipe(
+    Array.from(HashMap.values(table.seats)),
+    A.filterMap((p) => Option.map(HashMap.get(table.playerIds, p.seatIndex), (id) => [p.seatIndex, id, p.chips] as const)),
+    A.sort(Order.mapInput(Order.number, ([seat]: readonly [SeatIndex, PlayerId, Chips]) => seatIndexToNumber(seat))),
+  );
+}
+
+/** The seated player due to post the next big blind, who gives up least by moving. */
+function nextBigBlind(table: TableState): SeatIndex {
+  const seats = seatedPlayers(table).map(([seat]) => seat);
+  const bigBlind = Option.map(table.blindPositions, (b) => seatIndexToNumber(b.bigBlind));
+  const next = Option.flatMap(bigBlind, (bb) =>
+    Option.orElse(
+      A.findFirst(seats, (s) => seatIndexToNumber(s) > bb),
+      () => A.head(seats),
+    ),
+  );
+  return Option.getOrElse(Option.orElse(next, () => A.head(seats)), () => makeSeatIndex(0));
+}
+
+function unsafeTable(tables: HashMap.HashMap<number, TableState>, number: number): TableState {
+  return Option.getOrThrowWith(HashMap.get(tables, number), () => new Error(`no table ${number}`));
+}
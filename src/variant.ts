@@ -0,0 +1,76 @@
+/**
+ * Game variants: which deck is used, how many hole cards are dealt, how
+ * hands are evaluated, and the betting structure a variant is played with
+ * by default.
+ *
+ * @module
+ */
+
+import type { Either, Option } from "effect";
+import type { BettingStructure } from "./action";
+import type { Card } from "./card";
+import { ALL_CARDS, SHORT_DECK_CARDS } from "./card";
+import type { InvalidGameState } from "./error";
+import type { HandRank } from "./evaluator";
+import { evaluateHoldem, evaluateOmaha, evaluateOmahaLow, evaluateShortDeck } from "./evaluator";
+
+// ---------------------------------------------------------------------------
+// Variant
+// ---------------------------------------------------------------------------
+
+export type Variant = "Holdem" | "Omaha" | "OmahaHiLo" | "ShortDeck";
+
+export interface VariantRules {
+  /** Cards shuffled into the deck each hand. */
+  readonly cards: readonly Card[];
+  readonly holeCardCount: number;
+  readonly defaultBettingStructure: BettingStructure;
+  readonly evaluate: (
+    holeCards: readonly Card[],
+    communityCards: readonly Card[],
+  ) => Either.Either<HandRank, InvalidGameState>;
+  /** Split-pot games: the qualifying low hand, if any. */
+  readonly evaluateLow?: (
+    holeCards: readonly Card[],
+    communityCards: readonly Card[],
+  ) => Option.Option<HandRank>;
+}
+
+// ---------------------------------------------------------------------------
+// Rules per variant
+// ---------------------------------------------------------------------------
+
+export const VARIANT_RULES: Readonly<Record<Variant, VariantRules>> = {
+  Holdem: {
+    cards: ALL_CARDS,
+    holeCardCount: 2,
+    defaultBettingStructure: "NoLimit",
+    evaluate: evaluateHoldem,
+  },
+  // Pot-Limit Omaha: four hole cards, exactly two of them play
+  Omaha: {
+    cards: ALL_CARDS,
+    holeCardCount: 4,
+    defaultBettingStructure: "PotLimit",
+    evaluate: evaluateOmaha,
+  },
+  // Omaha Hi/Lo (Omaha/8): pots split with the best eight-or-better low
+  OmahaHiLo: {
+    cards: ALL_CARDS,
+    holeCardCount: 4,
+    defaultBettingStructure: "PotLimit",
+    evaluate: evaluateOmaha,
+    evaluateLow: evaluateOmahaLow,
+  },
+  // Short-deck (6+) Hold'em: 36 cards, flush beats full house, A-6-7-8-9 straight
+  ShortDeck: {
+    cards: SHORT_DECK_CARDS,
+    holeCardCount: 2,
+    defaultBettingStructure: "NoLimit",
+    evaluate: evaluateShortDeck,
+  },
+};
+
+export function variantRules(variant: Variant): VariantRules {
+  return VARIANT_RULES[variant];
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { Option } from "effect";
+import { Either, Option } from "effect";
 import { Chips } from "../src/brand.js";
-import { computeLegalActions } from "../src/action.js";
+import { AllIn, Raise, computeLegalActions, validateAction } from "../src/action.js";
 
 // Generic validation tests (valid/invalid actions within/outside legal ranges)
 // are covered by action.properties.ts. Only representative scenarios showing
@@ -84,3 +84,151 @@ describe("computeLegalActions — representative scenarios", () => {
     expect(Option.isNone(legal.maxBet)).toBe(true);
   });
 });
+
+describe("computeLegalActions — pot limit", () => {
+  it("caps an opening bet at the size of the pot", () => {
+    const legal = computeLegalActions(
+      Chips(1000),
+      Chips(0),
+      Chips(0),
+      Chips(20),
+      false,
+      { structure: "PotLimit", potSize: Chips(150) },
+    );
+
+    expect(Option.getOrThrow(legal.minBet)).toBe(20);
+    expect(Option.getOrThrow(legal.maxBet)).toBe(150);
+    expect(legal.canAllIn).toBe(false);
+  });
+
+  it("caps a raise at the pot after calling, counting every outstanding bet", () => {
+    // 60 already collected, opponent bet 40: pot is 100, call 40, raise 140 more
+    const legal = computeLegalActions(
+      Chips(1000),
+      Chips(0),
+      Chips(40),
+      Chips(40),
+      true,
+      { structure: "PotLimit", potSize: Chips(100) },
+    );
+
+    expect(Option.getOrThrow(legal.minRaise)).toBe(80);
+    expect(Option.getOrThrow(legal.maxRaise)).toBe(180);
+  });
+
+  it("still allows the minimum bet into a pot smaller than the big blind", () => {
+    const legal = computeLegalActions(
+      Chips(1000),
+      Chips(0),
+      Chips(0),
+      Chips(20),
+      false,
+      { structure: "PotLimit", potSize: Chips(5) },
+    );
+
+    expect(Option.getOrThrow(legal.maxBet)).toBe(20);
+  });
+
+  it("allows a short stack to shove when it fits inside the limit", () => {
+    const legal = computeLegalActions(
+      Chips(120),
+      Chips(0),
+      Chips(40),
+      Chips(40),
+      true,
+      { structure: "PotLimit", potSize: Chips(100) },
+    );
+
+    expect(Option.getOrThrow(legal.maxRaise)).toBe(120);
+    expect(legal.canAllIn).toBe(true);
+  });
+
+  it("validateAction rejects oversized raises and shoves with a pot-limit reason", () => {
+    const legal = computeLegalActions(
+      Chips(1000),
+      Chips(0),
+      Chips(40),
+      Chips(40),
+      true,
+      { structure: "PotLimit", potSize: Chips(100) },
+    );
+
+    const raise = validateAction(Raise({ amount: Chips(300) }), legal, "PotLimit");
+    expect(Either.isLeft(raise)).toBe(true);
+    if (Either.isLeft(raise)) {
+      expect(raise.left.reason).toBe("Raise to 300 exceeds the pot-limit maximum of 180");
+    }
+
+    const shove = validateAction(AllIn, legal, "PotLimit");
+    expect(Either.isLeft(shove)).toBe(true);
+    if (Either.isLeft(shove)) {
+      expect(shove.left.reason).toContain("pot-limit maximum");
+    }
+  });
+});
+
+describe("computeLegalActions — fixed limit", () => {
+  it("locks an opening bet to the bet size", () => {
+    const legal = computeLegalActions(
+      Chips(1000),
+      Chips(0),
+      Chips(0),
+      Chips(20),
+      false,
+      { structure: "FixedLimit", potSize: Chips(60) },
+    );
+
+    expect(Option.getOrThrow(legal.minBet)).toBe(20);
+    expect(Option.getOrThrow(legal.maxBet)).toBe(20);
+    expect(legal.canAllIn).toBe(false);
+  });
+
+  it("locks a raise to one bet size over the current bet", () => {
+    const legal = computeLegalActions(
+      Chips(1000),
+      Chips(0),
+      Chips(20),
+      Chips(20),
+      true,
+      { structure: "FixedLimit", potSize: Chips(80) },
+    );
+
+    expect(Option.getOrThrow(legal.minRaise)).toBe(40);
+    expect(Option.getOrThrow(legal.maxRaise)).toBe(40);
+  });
+
+  it("removes raising once the cap is reached, leaving call and fold", () => {
+    const legal = computeLegalActions(
+      Chips(1000),
+      Chips(0),
+      Chips(80),
+      Chips(20),
+      true,
+      { structure: "FixedLimit", potSize: Chips(200), raiseCapped: true },
+    );
+
+    expect(Option.isNone(legal.minRaise)).toBe(true);
+    expect(Option.isNone(legal.maxRaise)).toBe(true);
+    expect(Option.getOrThrow(legal.callAmount)).toBe(80);
+    expect(legal.canAllIn).toBe(false);
+
+    const raise = validateAction(Raise({ amount: Chips(100) }), legal, "FixedLimit");
+    expect(Either.isLeft(raise)).toBe(true);
+    if (Either.isLeft(raise)) {
+      expect(raise.left.reason).toContain("raise cap");
+    }
+  });
+
+  it("lets a short stack go all-in for less than a full bet", () => {
+    const legal = computeLegalActions(
+      Chips(15),
+      Chips(0),
+      Chips(20),
+      Chips(20),
+      true,
+      { structure: "FixedLimit", potSize: Chips(80), raiseCapped: true },
+    );
+
+    expect(legal.canAllIn).toBe(true);
+  });
+});
@@ -7,7 +7,8 @@ import {
   applyAction,
   activePlayer,
 } from "../src/betting.js";
-import { Check, Bet } from "../src/action.js";
+import { Call, Check, Bet, Raise } from "../src/action.js";
+import { getLegalActions } from "../src/betting.js";
 
 // Generic chip conservation, fold removal, termination, all-in, and
 // call/raise validation tests are covered by betting.properties.ts.
@@ -137,3 +138,50 @@ describe("applyAction", () => {
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// Fixed limit — raise cap
+// ---------------------------------------------------------------------------
+
+describe("fixed-limit raise cap", () => {
+  function bet(state: ReturnType<typeof createBettingRound>, seat: number, action: Parameters<typeof applyAction>[2]) {
+    const result = applyAction(state, SeatIndex(seat), action);
+    if (Either.isLeft(result)) throw new Error(result.left.reason);
+    return result.right.state;
+  }
+
+  it("stops raising after one bet and three raises with three players", () => {
+    const players = [mkPlayer(0, 1000), mkPlayer(1, 1000), mkPlayer(2, 1000)];
+    let state = createBettingRound("Flop", players, SeatIndex(0), Chips(0), Chips(20), {
+      structure: "FixedLimit",
+    });
+
+    state = bet(state, 0, Bet({ amount: Chips(20) }));
+    state = bet(state, 1, Raise({ amount: Chips(40) }));
+    state = bet(state, 2, Raise({ amount: Chips(60) }));
+    state = bet(state, 0, Raise({ amount: Chips(80) }));
+
+    expect(state.raiseCount).toBe(3);
+    const legal = getLegalActions(state);
+    expect(Option.isNone(legal.minRaise)).toBe(true);
+    expect(Option.getOrThrow(legal.callAmount)).toBe(40);
+  });
+
+  it("lifts the cap when play is heads-up", () => {
+    const players = [mkPlayer(0, 1000), mkPlayer(1, 1000)];
+    let state = createBettingRound("Flop", players, SeatIndex(0), Chips(0), Chips(20), {
+      structure: "FixedLimit",
+    });
+
+    state = bet(state, 0, Bet({ amount: Chips(20) }));
+    state = bet(state, 1, Raise({ amount: Chips(40) }));
+    state = bet(state, 0, Raise({ amount: Chips(60) }));
+    state = bet(state, 1, Raise({ amount: Chips(80) }));
+    state = bet(state, 0, Raise({ amount: Chips(100) }));
+
+    expect(state.raiseCount).toBe(4);
+    expect(Option.getOrThrow(getLegalActions(state).maxRaise)).toBe(120);
+    state = bet(state, 1, Call);
+    expect(state.isComplete).toBe(true);
+  });
+});
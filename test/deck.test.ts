@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { Effect, Either } from "effect";
+import { Effect, Either, HashMap } from "effect";
 import { shuffled, draw, dealHoleCards, dealFlop, dealOne } from "../src/deck.js";
 import { SeatIndex } from "../src/brand.js";
 
@@ -95,3 +95,17 @@ describe("dealOne — burn and ordering", () => {
     expect(Either.isLeft(result)).toBe(true);
   });
 });
+
+describe("dealHoleCards — card count", () => {
+  it("deals the requested number of cards to each seat, in order", () => {
+    const deck = Effect.runSync(shuffled);
+    const result = dealHoleCards(deck, [SeatIndex(0), SeatIndex(1)], 4);
+    expect(Either.isRight(result)).toBe(true);
+    if (Either.isRight(result)) {
+      const [map, remaining] = result.right;
+      expect(HashMap.unsafeGet(map, SeatIndex(0))).toEqual(deck.slice(0, 4));
+      expect(HashMap.unsafeGet(map, SeatIndex(1))).toEqual(deck.slice(4, 8));
+      expect(remaining).toHaveLength(44);
+    }
+  });
+});
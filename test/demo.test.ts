@@ -112,7 +112,7 @@ function logEvent(ev: GameEvent) {
       log(`  > Hand started | Button: Seat ${seatIndexToNumber(ev.button)} | Players: [${ev.players.map(s => seatIndexToNumber(s)).join(", ")}]`);
       break;
     case "BlindsPosted":
-      log(`  Blinds: SB Seat ${seatIndexToNumber(ev.smallBlind.seat)} (${chipsToNumber(ev.smallBlind.amount)}) | BB Seat ${seatIndexToNumber(ev.bigBlind.seat)} (${chipsToNumber(ev.bigBlind.amount)})`);
+      log(`  Blinds: ${ev.smallBlind === undefined ? "SB dead" : `SB Seat ${seatIndexToNumber(ev.smallBlind.seat)} (${chipsToNumber(ev.smallBlind.amount)})`} | BB Seat ${seatIndexToNumber(ev.bigBlind.seat)} (${chipsToNumber(ev.bigBlind.amount)})`);
       break;
     case "HoleCardsDealt":
       break;
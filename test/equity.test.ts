@@ -0,0 +1,277 @@
+import { describe, it, expect } from "vitest";
+import { Effect, Either, Exit, Random, Schema } from "effect";
+import {
+  calculateEquity,
+  calculateRangeEquity,
+  KnownHand,
+  RangeHand,
+  RandomHand,
+  EquityResultSchema,
+  RangeEquityResultSchema,
+} from "../src/equity.js";
+import type {
+  EquityOptions,
+  EquityProgress,
+  EquityRequest,
+  PlayerEquity,
+  RangeEquityOptions,
+  RangeEquityProgress,
+  RangeEquityRequest,
+} from "../src/equity.js";
+import { unsafeCardFromString } from "../src/card.js";
+import { parseRange, rangeCombos } from "../src/range.js";
+
+function cards(...strs: string[]) {
+  return strs.map(unsafeCardFromString);
+}
+
+function combo(a: string, b: string) {
+  return [unsafeCardFromString(a), unsafeCardFromString(b)] as const;
+}
+
+function known(a: string, b: string) {
+  return KnownHand({ cards: combo(a, b) });
+}
+
+function playerOrThrow(result: { readonly players: readonly PlayerEquity[] }, index: number): PlayerEquity {
+  const player = result.players[index];
+  if (player === undefined) throw new Error(`no player ${index}`);
+  return player;
+}
+
+/** Run with a fixed seed so sampled results are repeatable. */
+function run(request: EquityRequest, options?: EquityOptions) {
+  return Effect.runPromise(Effect.either(Effect.withRandom(calculateEquity(request, options), Random.make(42))));
+}
+
+async function runOrThrow(request: EquityRequest, options?: EquityOptions) {
+  return Either.getOrThrow(await run(request, options));
+}
+
+function ranges(...notations: string[]) {
+  return notations.map((n) => Either.getOrThrow(parseRange(n)));
+}
+
+function runRanges(request: RangeEquityRequest, options?: RangeEquityOptions) {
+  return Effect.runPromise(Effect.either(Effect.withRandom(calculateRangeEquity(request, options), Random.make(42))));
+}
+
+async function runRangesOrThrow(request: RangeEquityRequest, options?: RangeEquityOptions) {
+  return Either.getOrThrow(await runRanges(request, options));
+}
+
+describe("calculateEquity — exhaustive", () => {
+  it("scores a complete board as a single deal", async () => {
+    const result = await runOrThrow({
+      hands: [known("As", "Ah"), known("Ks", "Kh")],
+      board: cards("2c", "7d", "9h", "Js", "3c"),
+    });
+
+    expect(result.exhaustive).toBe(true);
+    expect(result.trials).toBe(1);
+    expect(result.players[0]).toMatchObject({ win: 100, tie: 0, lose: 0, equity: 100 });
+    expect(result.players[1]).toMatchObject({ win: 0, tie: 0, lose: 100, equity: 0 });
+  });
+
+  it("counts river outs exactly on the turn", async () => {
+    const result = await runOrThrow({
+      hands: [known("As", "Ah"), known("Ks", "Kh")],
+      board: cards("2c", "7d", "9h", "Js"),
+    });
+
+    expect(result.trials).toBe(44);
+    expect(playerOrThrow(result, 1).win).toBeCloseTo((2 / 44) * 100, 10);
+    expect(playerOrThrow(result, 0).win).toBeCloseTo((42 / 44) * 100, 10);
+    expect(playerOrThrow(result, 0).interval.lower).toBe(playerOrThrow(result, 0).equity);
+  });
+
+  it("splits the pot when both hands always tie", async () => {
+    const result = await runOrThrow({
+      hands: [known("Ac", "Kd"), known("Ad", "Kc")],
+      board: cards("2h", "3h", "4s", "9c"),
+    });
+
+    for (const p of result.players) {
+      expect(p.tie).toBeCloseTo(100, 10);
+      expect(p.equity).toBeCloseTo(50, 10);
+    }
+  });
+
+  it("treats a one-combo range like the known hand", async () => {
+    const board = cards("2c", "7d", "9h", "Js");
+    const asRange = await runOrThrow({
+      hands: [known("As", "Kd"), RangeHand({ combos: [{ combo: combo("Qs", "Qd"), weight: 1 }] })],
+      board,
+    });
+    const asKnown = await runOrThrow({ hands: [known("As", "Kd"), known("Qs", "Qd")], board });
+
+    expect(asRange.players).toEqual(asKnown.players);
+  });
+
+  it("drops range combos blocked by known cards", async () => {
+    const result = await runOrThrow({
+      hands: [
+        known("As", "Ks"),
+        RangeHand({ combos: [{ combo: combo("Ks", "Kc"), weight: 1 }, { combo: combo("Qs", "Qd"), weight: 1 }] }),
+      ],
+      board: cards("2c", "7d", "9h", "Js"),
+    });
+    const queens = await runOrThrow({ hands: [known("As", "Ks"), known("Qs", "Qd")], board: cards("2c", "7d", "9h", "Js") });
+
+    expect(result.players).toEqual(queens.players);
+  });
+
+  it("enumerates a random hand on the turn", async () => {
+    const result = await runOrThrow({
+      hands: [known("As", "Ah"), RandomHand],
+      board: cards("2c", "7d", "9h", "Js"),
+    });
+
+    expect(result.exhaustive).toBe(true);
+    expect(result.trials).toBe(((46 * 45) / 2) * 44);
+    const hero = playerOrThrow(result, 0);
+    expect(hero.win + hero.tie + hero.lose).toBeCloseTo(100, 10);
+    expect(hero.equity + playerOrThrow(result, 1).equity).toBeCloseTo(100, 10);
+  });
+});
+
+describe("calculateEquity — sampling", () => {
+  it("estimates AKs against queens preflop within its interval", async () => {
+    const result = await runOrThrow({ hands: [known("Ah", "Kh"), known("Qs", "Qd")] }, { samples: 20_000 });
+    const ak = playerOrThrow(result, 0);
+
+    expect(result.exhaustive).toBe(false);
+    expect(result.trials).toBe(20_000);
+    // Known values: AhKh ~46.2%, QsQd ~53.8%
+    expect(ak.equity).toBeGreaterThan(44);
+    expect(ak.equity).toBeLessThan(48.5);
+    expect(ak.interval.lower).toBeLessThan(ak.equity);
+    expect(ak.interval.upper - ak.interval.lower).toBeLessThan(2);
+    expect(ak.equity + playerOrThrow(result, 1).equity).toBeCloseTo(100, 10);
+  });
+
+  it("repeats exactly with the same seed", async () => {
+    const request = { hands: [known("Ah", "Kh"), RandomHand, RandomHand] };
+    expect(await runOrThrow(request, { samples: 2_000 })).toEqual(await runOrThrow(request, { samples: 2_000 }));
+  });
+
+  it("reports progress after every batch", async () => {
+    const progress: EquityProgress[] = [];
+    await runOrThrow(
+      { hands: [known("Ah", "Kh"), known("Qs", "Qd")] },
+      { samples: 3_000, batchSize: 1_000, onProgress: (p) => progress.push(p) },
+    );
+
+    expect(progress.map((p) => p.trials)).toEqual([1_000, 2_000, 3_000]);
+    expect(progress.every((p) => p.total === 3_000)).toBe(true);
+    expect(progress[2]?.current.trials).toBe(3_000);
+  });
+
+  it("can be interrupted", async () => {
+    const exit = await Effect.runPromiseExit(
+      Effect.timeout(
+        calculateEquity({ hands: [known("Ah", "Kh"), RandomHand] }, { samples: 100_000_000 }),
+        "20 millis",
+      ),
+    );
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+
+  it("produces results that round-trip through EquityResultSchema", async () => {
+    const result = await runOrThrow({ hands: [known("Ah", "Kh"), RandomHand] }, { samples: 500 });
+    const decoded = Schema.decodeUnknownSync(EquityResultSchema)(JSON.parse(JSON.stringify(result)));
+    expect(decoded).toEqual(result);
+  });
+});
+
+describe("calculateEquity — errors", () => {
+  it("fails with fewer than two hands", async () => {
+    expect(Either.isLeft(await run({ hands: [known("Ah", "Kh")] }))).toBe(true);
+  });
+
+  it("fails on a card held twice", async () => {
+    expect(Either.isLeft(await run({ hands: [known("Ah", "Kh"), known("Ah", "Qd")] }))).toBe(true);
+  });
+
+  it("fails on a dead card that is also on the board", async () => {
+    const result = await run({ hands: [known("Ah", "Kh"), RandomHand], board: cards("2c", "3c", "4c"), dead: cards("2c") });
+    expect(Either.isLeft(result)).toBe(true);
+  });
+
+  it("fails when a range has no live combos", async () => {
+    const result = await run({ hands: [known("Ah", "Qd"), RangeHand({ combos: [{ combo: combo("Ah", "Kh"), weight: 1 }] })] });
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+describe("calculateRangeEquity", () => {
+  it("scores every hero combo on a complete board", async () => {
+    const result = await runRangesOrThrow({ ranges: ranges("AA, KK", "QQ"), board: cards("2c", "7d", "9h", "Js", "3c") });
+
+    expect(playerOrThrow(result, 0).equity).toBeCloseTo(100, 10);
+    expect(playerOrThrow(result, 1).equity).toBeCloseTo(0, 10);
+    expect(result.combos).toHaveLength(12);
+    expect(result.combos.every((c) => c.equity.equity === 100 && c.weight === 1)).toBe(true);
+    expect(result.distribution.map((b) => b.weight)).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 12]);
+  });
+
+  it("matches calculateEquity for each combo", async () => {
+    const board = cards("2c", "7d", "9h", "Js");
+    const result = await runRangesOrThrow({ ranges: ranges("AKs", "QQ, 88"), board }, { buckets: 4 });
+    const villain = Either.getOrThrow(parseRange("QQ, 88"));
+    const ahkh = await runOrThrow({
+      hands: [known("Ah", "Kh"), RangeHand({ combos: rangeCombos(villain) })],
+      board,
+    });
+
+    expect(result.combos.find((c) => c.combo === "AhKh")?.equity).toEqual(ahkh.players[0]);
+    expect(result.distribution).toHaveLength(4);
+    expect(result.distribution[3]?.upper).toBe(100);
+    expect(result.distribution.reduce((sum, b) => sum + b.weight, 0)).toBe(4);
+    expect(playerOrThrow(result, 0).equity + playerOrThrow(result, 1).equity).toBeCloseTo(100, 10);
+  });
+
+  it("orders combos by equity and weights them by the range", async () => {
+    const result = await runRangesOrThrow({
+      ranges: ranges("AA:0.5, 22", "KK"),
+      board: cards("2c", "7d", "9h", "Js", "3c"),
+    });
+
+    expect(result.combos.map((c) => c.equity.equity)).toEqual([...result.combos.map((c) => c.equity.equity)].sort((a, b) => b - a));
+    expect(result.combos.filter((c) => c.combo.startsWith("A")).every((c) => c.weight === 0.5)).toBe(true);
+    expect(result.combos.filter((c) => c.combo.startsWith("2"))).toHaveLength(3);
+  });
+
+  it("skips hero combos that block an opponent's whole range", async () => {
+    const result = await runRangesOrThrow({ ranges: ranges("AhKh, QsQd", "AhAd"), board: cards("2c", "7d", "9h", "Js", "3c") });
+    expect(result.combos.map((c) => c.combo)).toEqual(["QsQd"]);
+  });
+
+  it("handles multiway spots", async () => {
+    const result = await runRangesOrThrow({ ranges: ranges("AKs", "QQ", "JJ"), board: cards("2c", "7d", "9h", "3s") });
+
+    expect(result.players).toHaveLength(3);
+    expect(result.players.reduce((sum, p) => sum + p.equity, 0)).toBeCloseTo(100, 10);
+    expect(result.combos).toHaveLength(4);
+  });
+
+  it("reports progress after every hero combo", async () => {
+    const progress: RangeEquityProgress[] = [];
+    await runRangesOrThrow(
+      { ranges: ranges("AKs", "QQ"), board: cards("2c", "7d", "9h", "Js", "3c") },
+      { onProgress: (p) => progress.push(p) },
+    );
+    expect(progress).toEqual([1, 2, 3, 4].map((combos) => ({ combos, total: 4 })));
+  });
+
+  it("produces results that round-trip through RangeEquityResultSchema", async () => {
+    const result = await runRangesOrThrow({ ranges: ranges("TT+", "AQs+"), board: cards("2c", "7d", "9h", "Js") });
+    const decoded = Schema.decodeUnknownSync(RangeEquityResultSchema)(JSON.parse(JSON.stringify(result)));
+    expect(decoded).toEqual(result);
+  });
+
+  it("fails with a single range or a bad bucket count", async () => {
+    expect(Either.isLeft(await runRanges({ ranges: ranges("AA") }))).toBe(true);
+    expect(Either.isLeft(await runRanges({ ranges: ranges("AA", "KK") }, { buckets: 0 }))).toBe(true);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { Either } from "effect";
-import { evaluate, compare, winners, evaluateHoldem } from "../src/evaluator.js";
-import { unsafeCardFromString } from "../src/card.js";
+import { Either, Option, Schema } from "effect";
+import { evaluate, compare, winners, handStrength, HandRankOrder, HandRankSchema, evaluateHoldem, evaluateOmaha, evaluateOmahaLow, evaluateShortDeck } from "../src/evaluator.js";
+import { cardCode, unsafeCardFromString } from "../src/card.js";
 
 /** Helper to build an array of Cards from short strings. */
 function cards(...strs: string[]) {
@@ -121,6 +121,32 @@ describe("compare", () => {
   });
 });
 
+describe("HandRank key", () => {
+  it("holds the category then the tie-breaking ranks", () => {
+    expect(evalOrThrow("Ah", "Ad", "Kh", "Kd", "9c", "2s", "3s").key).toEqual([3, 14, 13, 9]);
+    expect(evalOrThrow("Ah", "2c", "3d", "4s", "5h").key).toEqual([5, 5]);
+    expect(evalOrThrow("Kh", "9d", "7c", "5s", "3h").key).toEqual([1, 13, 9, 7, 5, 3]);
+  });
+
+  it("survives a JSON round trip through HandRankSchema and still compares", () => {
+    const decode = Schema.decodeUnknownSync(HandRankSchema);
+    const kings = evalOrThrow("Kh", "Kd", "Ac", "5s", "3d");
+    const queens = evalOrThrow("Qh", "Qd", "Ac", "5s", "3d");
+    const rebuilt = decode(JSON.parse(JSON.stringify(kings)));
+
+    expect(rebuilt).toEqual(kings);
+    expect(compare(rebuilt, queens)).toBe(1);
+    expect(compare(rebuilt, kings)).toBe(0);
+  });
+
+  it("orders by key alone, ignoring names and descriptions", () => {
+    const hand = (key: number[]) => ({ name: "", description: "", rank: key[0] ?? 0, bestCards: [], key });
+    expect(compare(hand([2, 13, 14, 5, 3]), hand([2, 13, 14, 4, 3]))).toBe(1);
+    expect(HandRankOrder(hand([1, 14]), hand([2, 2]))).toBe(-1);
+    expect(winners([hand([4, 9, 3, 2]), hand([4, 9, 3, 2]), hand([4, 8, 14, 13])])).toHaveLength(2);
+  });
+});
+
 describe("winners", () => {
   it("returns empty array for empty input", () => {
     expect(winners([])).toEqual([]);
@@ -164,6 +190,62 @@ describe("winners", () => {
   });
 });
 
+describe("evaluate — best cards and errors", () => {
+  it("plays the ace low in a five-high straight", () => {
+    const wheel = evalOrThrow("Ah", "2c", "3d", "4s", "5h", "Kd", "Kc");
+    expect(wheel.description).toBe("Straight, 5 High");
+    expect(wheel.bestCards).toEqual(["5h", "4s", "3d", "2c", "Ah"]);
+  });
+
+  it("keeps the best five cards of a six-card flush", () => {
+    const flush = evalOrThrow("Ts", "Th", "8h", "7d", "6h", "2h", "3h", "Kh");
+    expect(flush.description).toBe("Flush, Kh High");
+    expect(flush.bestCards).toEqual(["Kh", "Th", "8h", "6h", "3h"]);
+  });
+
+  it("uses two cards of the lower trips to fill a full house", () => {
+    const boat = evalOrThrow("Ts", "Th", "Tc", "7d", "7h", "7c", "3h");
+    expect(boat.description).toBe("Full House, 10's over 7's");
+    expect(boat.bestCards).toEqual(["Ts", "Th", "Tc", "7d", "7h"]);
+  });
+
+  it("fails on duplicate cards", () => {
+    expect(Either.isLeft(evaluate(cards("As", "As", "Kd", "Qc", "Jh")))).toBe(true);
+  });
+
+  it("fails on no cards", () => {
+    expect(Either.isLeft(evaluate([]))).toBe(true);
+  });
+});
+
+describe("handStrength", () => {
+  const strength = (...strs: string[]) => handStrength(cards(...strs).map(cardCode));
+
+  it("orders categories and kickers as integers", () => {
+    const quads = strength("9c", "9d", "9h", "9s", "2c");
+    const boat = strength("Ac", "Ad", "Ah", "Ks", "Kc");
+    const twoPairQueenKicker = strength("Ac", "Ad", "Kh", "Ks", "Qc");
+    const twoPairJackKicker = strength("Ac", "Ad", "Kh", "Ks", "Jc");
+    expect(quads).toBeGreaterThan(boat);
+    expect(twoPairQueenKicker).toBeGreaterThan(twoPairJackKicker);
+  });
+
+  it("ranks the wheel below a six-high straight", () => {
+    expect(strength("6c", "5d", "4h", "3s", "2c")).toBeGreaterThan(strength("Ac", "5d", "4h", "3s", "2c"));
+  });
+
+  it("ties hands that differ only in suits", () => {
+    expect(strength("Kh", "Kd", "Ac", "Qs", "Jd")).toBe(strength("Kc", "Ks", "Ah", "Qd", "Jc"));
+  });
+
+  it("orders hands the same way as compare", () => {
+    const queenKicker = ["Ah", "Ad", "Kh", "Ks", "Qc", "2d", "3c"];
+    const jackKicker = ["Ah", "Ad", "Kh", "Ks", "Jc", "2d", "3c"];
+    expect(strength(...queenKicker)).toBeGreaterThan(strength(...jackKicker));
+    expect(compare(evalOrThrow(...queenKicker), evalOrThrow(...jackKicker))).toBe(1);
+  });
+});
+
 describe("evaluateHoldem", () => {
   it("combines hole cards and community cards correctly", () => {
     const hole = cards("As", "Ks");
@@ -185,3 +267,103 @@ describe("evaluateHoldem", () => {
     }
   });
 });
+
+describe("evaluateOmaha", () => {
+  it("uses exactly two hole cards — one spade in hand is not a flush", () => {
+    const hole = cards("As", "Kd", "7c", "2h");
+    const community = cards("Qs", "Js", "Ts", "9s", "3c");
+    const result = evaluateOmaha(hole, community);
+    expect(Either.isRight(result)).toBe(true);
+    if (Either.isRight(result)) {
+      expect(result.right.name).toBe("Straight");
+    }
+  });
+
+  it("uses exactly three board cards — four of a kind on board does not play", () => {
+    const hole = cards("2c", "3d", "7h", "8h");
+    const community = cards("Ac", "Ad", "Ah", "As", "Kc");
+    const result = evaluateOmaha(hole, community);
+    expect(Either.isRight(result)).toBe(true);
+    if (Either.isRight(result)) {
+      expect(result.right.name).toBe("Three of a Kind");
+    }
+  });
+
+  it("fails with fewer than three community cards", () => {
+    const result = evaluateOmaha(cards("As", "Ks", "Qs", "Js"), cards("2c", "3c"));
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+describe("evaluateShortDeck", () => {
+  function shortOrThrow(hole: string[], board: string[]) {
+    const result = evaluateShortDeck(cards(...hole), cards(...board));
+    if (Either.isLeft(result)) throw new Error(result.left.reason);
+    return result.right;
+  }
+
+  it("ranks a flush above a full house", () => {
+    const flush = shortOrThrow(["Ah", "7h"], ["Kh", "9h", "6h", "Kc", "Kd"]);
+    const quads = shortOrThrow(["Ks", "9c"], ["Kh", "9h", "6h", "Kc", "Kd"]);
+    expect(flush.name).toBe("Flush");
+    expect(compare(quads, flush)).toBe(1);
+
+    const fullHouse = shortOrThrow(["9s", "9c"], ["Kh", "9h", "6h", "Kc", "7d"]);
+    const otherFlush = shortOrThrow(["Th", "8h"], ["Kh", "9h", "6h", "Kc", "7d"]);
+    expect(fullHouse.name).toBe("Full House");
+    expect(compare(otherFlush, fullHouse)).toBe(1);
+    expect(winners([fullHouse, otherFlush])).toEqual([otherFlush]);
+  });
+
+  it("keeps the standard category in rank and the short-deck order in key", () => {
+    const flush = shortOrThrow(["Th", "8h"], ["Kh", "9h", "6h", "Kc", "7d"]);
+    const fullHouse = shortOrThrow(["9s", "9c"], ["Kh", "9h", "6h", "Kc", "7d"]);
+    expect(flush.rank).toBe(6);
+    expect(fullHouse.rank).toBe(7);
+    expect(flush.key[0]).toBeGreaterThan(fullHouse.key[0] ?? 0);
+  });
+
+  it("counts A-6-7-8-9 as the lowest straight", () => {
+    const wheel = shortOrThrow(["As", "6d"], ["7c", "8h", "9s", "Kd", "Qc"]);
+    expect(wheel.name).toBe("Straight");
+    expect(wheel.description).toBe("Straight, 9 High");
+    expect(wheel.bestCards).toEqual(["9s", "8h", "7c", "6d", "As"]);
+
+    const sixToTen = shortOrThrow(["Ts", "6d"], ["7c", "8h", "9s", "Kd", "Qc"]);
+    expect(compare(sixToTen, wheel)).toBe(1);
+  });
+
+  it("breaks ties on kickers and splits identical hands", () => {
+    const aceKicker = shortOrThrow(["Qs", "Ad"], ["Qc", "8h", "7s", "Td", "6c"]);
+    const kingKicker = shortOrThrow(["Qh", "Kd"], ["Qc", "8h", "7s", "Td", "6c"]);
+    expect(compare(aceKicker, kingKicker)).toBe(1);
+
+    const split = shortOrThrow(["Qh", "Ac"], ["Qc", "8h", "7s", "Td", "6c"]);
+    expect(winners([aceKicker, split])).toHaveLength(2);
+  });
+});
+
+describe("evaluateOmahaLow", () => {
+  it("finds the best eight-or-better low using two hole and three board cards", () => {
+    const low = evaluateOmahaLow(cards("Ac", "2d", "Kh", "Ks"), cards("3s", "6h", "8c", "Qd", "Jc"));
+    expect(Option.isSome(low)).toBe(true);
+    if (Option.isSome(low)) {
+      expect(low.value.description).toBe("8-6-3-2-A Low");
+    }
+  });
+
+  it("does not qualify with only one low card in hand", () => {
+    const low = evaluateOmahaLow(cards("Ac", "Kd", "Kh", "Ks"), cards("2s", "3h", "4c", "5d", "Jc"));
+    expect(Option.isNone(low)).toBe(true);
+  });
+
+  it("ranks the lower low higher and ignores straights and flushes", () => {
+    const wheel = evaluateOmahaLow(cards("Ah", "2h", "Kc", "Kd"), cards("3h", "4h", "5h", "Qs", "Js"));
+    const eight = evaluateOmahaLow(cards("Ac", "8d", "Kh", "Ks"), cards("3h", "4h", "5h", "Qs", "Js"));
+    expect(Option.isSome(wheel) && Option.isSome(eight)).toBe(true);
+    if (Option.isSome(wheel) && Option.isSome(eight)) {
+      expect(wheel.value.description).toBe("5-4-3-2-A Low");
+      expect(compare(wheel.value, eight.value)).toBe(1);
+    }
+  });
+});
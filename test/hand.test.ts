@@ -1,15 +1,21 @@
 import { describe, it, expect } from "vitest";
-import { Effect, Either, Option } from "effect";
+import { Effect, Either, HashMap, Option } from "effect";
 import {
   startHand,
   act,
   activePlayer,
+  getLegalActions,
   isComplete,
+  getCommunityCards,
 } from "../src/hand.js";
 import type { ForcedBets, HandState } from "../src/hand.js";
 import { Chips, SeatIndex, HandId, chipsToNumber, seatIndexToNumber } from "../src/brand.js";
 import { createPlayer } from "../src/player.js";
-import { Fold, Check, Call } from "../src/action.js";
+import { Fold, Check, Call, AllIn } from "../src/action.js";
+import { totalPotSize } from "../src/pot.js";
+import type { Pot } from "../src/pot.js";
+import type { Player } from "../src/player.js";
+import { evaluateHoldem } from "../src/evaluator.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -20,9 +26,10 @@ function runStartHand(
   button: Parameters<typeof startHand>[1],
   forcedBets: Parameters<typeof startHand>[2],
   handId?: Parameters<typeof startHand>[3],
+  options?: Parameters<typeof startHand>[4],
 ) {
   return Effect.runSync(
-    startHand(players, button, forcedBets, handId ?? HandId("test-hand")),
+    startHand(players, button, forcedBets, handId ?? HandId("test-hand"), options),
   );
 }
 
@@ -45,6 +52,18 @@ function actOrThrow(state: HandState, seat: SeatIndex, action: typeof Fold): Han
   return result.right;
 }
 
+function playerOrThrow(state: HandState, seat: number): Player {
+  const player = state.players.find((p) => seatIndexToNumber(p.seatIndex) === seat);
+  if (player === undefined) throw new Error(`no player in seat ${seat}`);
+  return player;
+}
+
+function potOrThrow(state: HandState, index: number): Pot {
+  const pot = state.pots[index];
+  if (pot === undefined) throw new Error(`no pot ${index}`);
+  return pot;
+}
+
 function playRoundWith(state: HandState, makeAction: () => typeof Check): HandState {
   let current = state;
   const startPhase = current.phase;
@@ -98,6 +117,549 @@ describe("startHand — blind posting", () => {
   });
 });
 
+describe("startHand — antes", () => {
+  const ANTE_BLINDS: ForcedBets = {
+    smallBlind: Chips(1),
+    bigBlind: Chips(2),
+    ante: Chips(5),
+  };
+
+  it("collects an ante from every dealt-in player into the pot", () => {
+    const players = makePlayers(3);
+    const state = runStartHand(players, SeatIndex(0), ANTE_BLINDS);
+
+    expect(state.pots).toHaveLength(1);
+    expect(chipsToNumber(potOrThrow(state, 0).amount)).toBe(15);
+    expect(potOrThrow(state, 0).eligibleSeats).toHaveLength(3);
+
+    // Antes are dead money: they do not count toward currentBet
+    const btn = playerOrThrow(state, 0);
+    const bb = playerOrThrow(state, 2);
+    expect(chipsToNumber(btn.chips)).toBe(95);
+    expect(chipsToNumber(btn.currentBet)).toBe(0);
+    expect(chipsToNumber(bb.chips)).toBe(93);
+    expect(chipsToNumber(bb.currentBet)).toBe(2);
+  });
+
+  it("emits AntesPosted between HandStarted and BlindsPosted", () => {
+    const players = makePlayers(3);
+    const state = runStartHand(players, SeatIndex(0), ANTE_BLINDS);
+
+    const tags = state.events.map((e) => e._tag);
+    expect(tags.slice(0, 3)).toEqual(["HandStarted", "AntesPosted", "BlindsPosted"]);
+
+    const antesPosted = state.events.find((e) => e._tag === "AntesPosted");
+    if (antesPosted?._tag !== "AntesPosted") throw new Error("missing AntesPosted");
+    expect(antesPosted.antes.map((a) => chipsToNumber(a.amount))).toEqual([5, 5, 5]);
+  });
+
+  it("a short stack goes all-in on the ante and only wins the matching layer", () => {
+    const players = [
+      createPlayer(SeatIndex(0), Chips(3)),
+      createPlayer(SeatIndex(1), Chips(100)),
+      createPlayer(SeatIndex(2), Chips(100)),
+    ];
+    const state = runStartHand(players, SeatIndex(0), ANTE_BLINDS);
+
+    const short = playerOrThrow(state, 0);
+    expect(short.isAllIn).toBe(true);
+    expect(chipsToNumber(short.chips)).toBe(0);
+
+    expect(state.pots).toHaveLength(2);
+    expect(chipsToNumber(potOrThrow(state, 0).amount)).toBe(9);
+    expect(potOrThrow(state, 0).eligibleSeats).toHaveLength(3);
+    expect(chipsToNumber(potOrThrow(state, 1).amount)).toBe(4);
+    expect(potOrThrow(state, 1).eligibleSeats).not.toContain(SeatIndex(0));
+  });
+
+  it("runs the board out when every player is all-in on the ante", () => {
+    const players = [
+      createPlayer(SeatIndex(0), Chips(5)),
+      createPlayer(SeatIndex(1), Chips(4)),
+    ];
+    const state = runStartHand(players, SeatIndex(0), ANTE_BLINDS);
+
+    expect(isComplete(state)).toBe(true);
+    expect(getCommunityCards(state)).toHaveLength(5);
+    const total = state.players.reduce((sum, p) => sum + chipsToNumber(p.chips), 0);
+    expect(total).toBe(9);
+  });
+
+  it("folding preflop awards the antes with the blinds", () => {
+    const players = makePlayers(2);
+    const state = runStartHand(players, SeatIndex(0), ANTE_BLINDS);
+
+    const after = actOrThrow(state, SeatIndex(0), Fold);
+    expect(isComplete(after)).toBe(true);
+
+    const winner = playerOrThrow(after, 1);
+    expect(chipsToNumber(winner.chips)).toBe(106);
+  });
+});
+
+describe("startHand — big-blind ante", () => {
+  const BBA_BLINDS: ForcedBets = {
+    smallBlind: Chips(1),
+    bigBlind: Chips(2),
+    ante: Chips(2),
+    anteMode: "BigBlind",
+  };
+
+  it("only the big blind pays the ante, after posting the blind", () => {
+    const players = makePlayers(3);
+    const state = runStartHand(players, SeatIndex(0), BBA_BLINDS);
+
+    const btn = playerOrThrow(state, 0);
+    const bb = playerOrThrow(state, 2);
+    expect(chipsToNumber(btn.chips)).toBe(100);
+    expect(chipsToNumber(bb.chips)).toBe(96);
+    expect(chipsToNumber(bb.currentBet)).toBe(2);
+
+    expect(state.pots).toHaveLength(1);
+    expect(chipsToNumber(potOrThrow(state, 0).amount)).toBe(2);
+    expect(potOrThrow(state, 0).eligibleSeats).toHaveLength(3);
+
+    const tags = state.events.map((e) => e._tag);
+    expect(tags.slice(0, 3)).toEqual(["HandStarted", "BlindsPosted", "AntesPosted"]);
+    const antesPosted = state.events.find((e) => e._tag === "AntesPosted");
+    if (antesPosted?._tag !== "AntesPosted") throw new Error("missing AntesPosted");
+    expect(antesPosted.mode).toBe("BigBlind");
+    expect(antesPosted.antes).toEqual([{ seat: SeatIndex(2), amount: Chips(2) }]);
+  });
+
+  it("a short big blind covers the blind first and the ante keeps one main pot", () => {
+    const players = [
+      createPlayer(SeatIndex(0), Chips(100)),
+      createPlayer(SeatIndex(1), Chips(100)),
+      createPlayer(SeatIndex(2), Chips(3)),
+    ];
+    let state = runStartHand(players, SeatIndex(0), BBA_BLINDS);
+
+    const bb = playerOrThrow(state, 2);
+    expect(chipsToNumber(bb.currentBet)).toBe(2);
+    expect(bb.isAllIn).toBe(true);
+
+    state = actOrThrow(state, SeatIndex(0), Call);
+    state = actOrThrow(state, SeatIndex(1), Call);
+
+    expect(state.phase).toBe("Flop");
+    expect(state.pots).toHaveLength(1);
+    expect(chipsToNumber(potOrThrow(state, 0).amount)).toBe(7);
+    expect(potOrThrow(state, 0).eligibleSeats).toContain(SeatIndex(2));
+  });
+});
+
+describe("startHand — straddle", () => {
+  function actingOrder(state: HandState): number[] {
+    const order: number[] = [];
+    let current = state;
+    while (current.phase === "Preflop") {
+      const seat = Option.getOrThrow(activePlayer(current));
+      order.push(seatIndexToNumber(seat));
+      const legal = Option.getOrThrow(getLegalActions(current));
+      current = actOrThrow(current, seat, legal.canCheck ? Check : Call);
+    }
+    return order;
+  }
+
+  it("UTG straddle posts a live blind and the straddler acts last", () => {
+    const players = makePlayers(4);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      straddle: { position: "UTG", amount: Chips(4) },
+    });
+
+    const utg = playerOrThrow(state, 3);
+    expect(chipsToNumber(utg.currentBet)).toBe(4);
+
+    const straddle = state.events.find((e) => e._tag === "StraddlePosted");
+    if (straddle?._tag !== "StraddlePosted") throw new Error("missing StraddlePosted");
+    expect(straddle.seat).toBe(SeatIndex(3));
+    expect(chipsToNumber(straddle.amount)).toBe(4);
+
+    const legal = Option.getOrThrow(getLegalActions(state));
+    expect(Option.getOrThrow(legal.callAmount)).toBe(Chips(4));
+    expect(Option.getOrThrow(legal.minRaise)).toBe(Chips(8));
+
+    expect(actingOrder(state)).toEqual([0, 1, 2, 3]);
+  });
+
+  it("button straddle starts the action with the small blind", () => {
+    const players = makePlayers(4);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      straddle: { position: "Button", amount: Chips(4) },
+    });
+
+    expect(actingOrder(state)).toEqual([1, 2, 3, 0]);
+  });
+
+  it("is ignored heads-up", () => {
+    const players = makePlayers(2);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      straddle: { position: "UTG", amount: Chips(4) },
+    });
+
+    expect(state.events.some((e) => e._tag === "StraddlePosted")).toBe(false);
+  });
+});
+
+describe("Pot-limit betting", () => {
+  it("preflop the first raiser can make it three big blinds plus the small blind", () => {
+    const players = makePlayers(3);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      bettingStructure: "PotLimit",
+    });
+
+    const legal = Option.getOrThrow(getLegalActions(state));
+    expect(Option.getOrThrow(legal.maxRaise)).toBe(Chips(7));
+    expect(legal.canAllIn).toBe(false);
+  });
+
+  it("counts antes already in the pot", () => {
+    const players = makePlayers(3);
+    const state = runStartHand(
+      players,
+      SeatIndex(0),
+      { ...DEFAULT_BLINDS, ante: Chips(1) },
+      undefined,
+      { bettingStructure: "PotLimit" },
+    );
+
+    const legal = Option.getOrThrow(getLegalActions(state));
+    expect(Option.getOrThrow(legal.maxRaise)).toBe(Chips(10));
+  });
+});
+
+describe("Fixed-limit betting", () => {
+  it("uses the big blind as the bet size until the turn, then doubles it", () => {
+    const players = makePlayers(2);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      bettingStructure: "FixedLimit",
+    });
+
+    const preflop = Option.getOrThrow(getLegalActions(state));
+    expect(Option.getOrThrow(preflop.minRaise)).toBe(Chips(4));
+    expect(Option.getOrThrow(preflop.maxRaise)).toBe(Chips(4));
+
+    state = actOrThrow(state, SeatIndex(0), Call);
+    state = actOrThrow(state, SeatIndex(1), Check);
+    expect(state.phase).toBe("Flop");
+    const flop = Option.getOrThrow(getLegalActions(state));
+    expect(Option.getOrThrow(flop.maxBet)).toBe(Chips(2));
+
+    state = actOrThrow(state, SeatIndex(1), Check);
+    state = actOrThrow(state, SeatIndex(0), Check);
+    expect(state.phase).toBe("Turn");
+    const turn = Option.getOrThrow(getLegalActions(state));
+    expect(Option.getOrThrow(turn.minBet)).toBe(Chips(4));
+    expect(Option.getOrThrow(turn.maxBet)).toBe(Chips(4));
+  });
+});
+
+describe("Omaha variant", () => {
+  it("deals four hole cards and defaults to pot-limit", () => {
+    const players = makePlayers(3);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      variant: "Omaha",
+    });
+
+    expect(state.variant).toBe("Omaha");
+    expect(state.bettingStructure).toBe("PotLimit");
+    for (const p of state.players) {
+      expect(Option.getOrThrow(p.holeCards)).toHaveLength(4);
+    }
+    expect(state.deck).toHaveLength(52 - 12);
+  });
+
+  it("reveals all four cards at showdown", () => {
+    const players = makePlayers(2);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      variant: "Omaha",
+    });
+    state = actOrThrow(state, SeatIndex(0), Call);
+    while (!isComplete(state)) state = playRoundWith(state, () => Check);
+
+    const revealed = state.events.filter((e) => e._tag === "PlayerRevealed");
+    expect(revealed).toHaveLength(2);
+    for (const e of revealed) {
+      if (e._tag === "PlayerRevealed") expect(e.holeCards).toHaveLength(4);
+    }
+  });
+});
+
+describe("Omaha Hi/Lo variant", () => {
+  it("awards every chip, tagging each award with its half", () => {
+    const players = makePlayers(3);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      variant: "OmahaHiLo",
+    });
+    state = actOrThrow(state, SeatIndex(0), Call);
+    state = actOrThrow(state, SeatIndex(1), Call);
+    while (!isComplete(state)) state = playRoundWith(state, () => Check);
+
+    const awards = state.events.filter((e) => e._tag === "PotAwarded");
+    let total = 0;
+    for (const e of awards) {
+      if (e._tag !== "PotAwarded") continue;
+      expect(["High", "Low"]).toContain(e.half);
+      total += chipsToNumber(e.amount);
+    }
+    expect(total).toBe(6);
+    expect(state.players.reduce((sum, p) => sum + chipsToNumber(p.chips), 0)).toBe(300);
+  });
+});
+
+describe("Run it N times", () => {
+  function allInHeadsUp(times: readonly [number, number], maxRunouts = 2) {
+    const players = makePlayers(2);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      maxRunouts,
+      runItTimes: HashMap.make([SeatIndex(0), times[0]], [SeatIndex(1), times[1]]),
+    });
+    state = actOrThrow(state, SeatIndex(0), AllIn);
+    return actOrThrow(state, SeatIndex(1), Call);
+  }
+
+  it("deals the board once per run from the same deck and awards each run separately", () => {
+    const state = allInHeadsUp([2, 2]);
+
+    expect(isComplete(state)).toBe(true);
+    expect(state.runouts).toHaveLength(2);
+    const [first] = state.runouts;
+    const used = state.runouts.flat();
+    expect(new Set(used.map((c) => `${c.rank}${c.suit}`)).size).toBe(10);
+    expect(getCommunityCards(state)).toEqual(first);
+
+    const runs = state.events.filter((e) => e._tag === "RunoutDealt");
+    expect(runs.map((e) => e._tag === "RunoutDealt" && e.run)).toEqual([1, 2]);
+
+    let awarded = 0;
+    for (const e of state.events) {
+      if (e._tag !== "PotAwarded") continue;
+      expect([1, 2]).toContain(e.run);
+      awarded += chipsToNumber(e.amount);
+    }
+    expect(awarded).toBe(200);
+    expect(state.players.reduce((sum, p) => sum + chipsToNumber(p.chips), 0)).toBe(200);
+  });
+
+  it("runs it once unless every live player agrees", () => {
+    const state = allInHeadsUp([2, 1]);
+
+    expect(state.runouts).toHaveLength(0);
+    expect(state.events.some((e) => e._tag === "RunItAgreed")).toBe(false);
+    expect(state.events.filter((e) => e._tag === "PotAwarded").every((e) => e._tag === "PotAwarded" && e.run === undefined)).toBe(true);
+  });
+
+  it("never runs more than the hand allows", () => {
+    const state = allInHeadsUp([4, 4], 3);
+    expect(state.runouts).toHaveLength(3);
+  });
+
+  it("rejects a maxRunouts that is not a positive integer", () => {
+    for (const maxRunouts of [0, 2.5]) {
+      const result = Effect.runSync(
+        Effect.either(startHand(makePlayers(2), SeatIndex(0), DEFAULT_BLINDS, HandId("test-hand"), { maxRunouts })),
+      );
+      expect(Either.isLeft(result) && result.left._tag).toBe("InvalidGameState");
+    }
+  });
+});
+
+describe("Bomb pots", () => {
+  it("collects the ante from everyone and starts on the flop with no blinds", () => {
+    const players = makePlayers(3);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      bombPot: { ante: Chips(5) },
+    });
+
+    expect(state.phase).toBe("Flop");
+    expect(getCommunityCards(state)).toHaveLength(3);
+    expect(chipsToNumber(totalPotSize(state.pots))).toBe(15);
+    expect(state.players.every((p) => chipsToNumber(p.chips) === 95)).toBe(true);
+    expect(state.events.some((e) => e._tag === "BlindsPosted")).toBe(false);
+    const started = state.events.find((e) => e._tag === "HandStarted");
+    expect(started).toBeDefined();
+    expect(started).not.toHaveProperty("smallBlind");
+    expect(started).not.toHaveProperty("bigBlind");
+    expect(state.events.some((e) => e._tag === "BettingRoundEnded")).toBe(false);
+    expect(Option.getOrThrow(activePlayer(state))).toBe(SeatIndex(1));
+  });
+
+  it("deals a second board and splits every pot between the boards", () => {
+    const players = makePlayers(3);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      bombPot: { ante: Chips(5), doubleBoard: true },
+    });
+
+    expect(state.boards.map((b) => b.length)).toEqual([3, 3]);
+    const flops = state.events.filter((e) => e._tag === "CommunityCardsDealt");
+    expect(flops.map((e) => e._tag === "CommunityCardsDealt" && e.board)).toEqual([1, 2]);
+
+    while (!isComplete(state)) state = playRoundWith(state, () => Check);
+
+    expect(getCommunityCards(state)).toHaveLength(5);
+    expect(state.boards[1]).toHaveLength(5);
+    let byBoard = [0, 0];
+    for (const e of state.events) {
+      if (e._tag !== "PotAwarded") continue;
+      const idx = (e.board ?? 0) - 1;
+      byBoard = byBoard.map((v, i) => (i === idx ? v + chipsToNumber(e.amount) : v));
+    }
+    expect(byBoard).toEqual([8, 7]);
+  });
+});
+
+describe("Double-board Hold'em", () => {
+  it("deals each street to both boards and keeps them independent", () => {
+    const players = makePlayers(3);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, { doubleBoard: true });
+
+    expect(state.boards).toEqual([[], []]);
+    state = actOrThrow(state, SeatIndex(0), Call);
+    state = actOrThrow(state, SeatIndex(1), Call);
+    state = actOrThrow(state, SeatIndex(2), Check);
+    expect(state.phase).toBe("Flop");
+    expect(state.boards.map((b) => b.length)).toEqual([3, 3]);
+    expect(getCommunityCards(state)).toEqual(state.boards[0]);
+
+    while (!isComplete(state)) state = playRoundWith(state, () => Check);
+
+    const [first, second] = state.boards;
+    expect(first).toHaveLength(5);
+    expect(second).toHaveLength(5);
+    const keys = state.boards.flat().map((c) => `${c.rank}${c.suit}`);
+    expect(new Set(keys).size).toBe(10);
+
+    const dealt = state.events.filter((e) => e._tag === "CommunityCardsDealt");
+    expect(dealt.map((e) => e._tag === "CommunityCardsDealt" && e.board)).toEqual([1, 2, 1, 2, 1, 2]);
+  });
+
+  it("splits each pot between the best hand on board one and on board two", () => {
+    const players = makePlayers(3);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, { doubleBoard: true });
+    state = actOrThrow(state, SeatIndex(0), Call);
+    state = actOrThrow(state, SeatIndex(1), Call);
+    state = actOrThrow(state, SeatIndex(2), Check);
+    while (!isComplete(state)) state = playRoundWith(state, () => Check);
+
+    const awards = state.events.filter((e) => e._tag === "PotAwarded");
+    const total = (board: number) =>
+      awards.reduce((sum, e) => (e._tag === "PotAwarded" && e.board === board ? sum + chipsToNumber(e.amount) : sum), 0);
+    expect(total(1)).toBe(3);
+    expect(total(2)).toBe(3);
+    expect(state.players.reduce((sum, p) => sum + chipsToNumber(p.chips), 0)).toBe(300);
+  });
+
+  it("runs an all-in double board out once on each board", () => {
+    const players = makePlayers(2);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      doubleBoard: true,
+      maxRunouts: 3,
+      runItTimes: HashMap.make([SeatIndex(0), 3], [SeatIndex(1), 3]),
+    });
+    state = actOrThrow(state, SeatIndex(0), AllIn);
+    state = actOrThrow(state, SeatIndex(1), Call);
+
+    expect(isComplete(state)).toBe(true);
+    expect(state.boards.map((b) => b.length)).toEqual([5, 5]);
+    expect(state.runouts).toEqual([]);
+    expect(state.events.some((e) => e._tag === "RunItAgreed")).toBe(false);
+  });
+});
+
+describe("Rake", () => {
+  it("rakes the pot before the showdown awards it", () => {
+    const players = makePlayers(3);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      rake: { percentage: 50, caps: [{ players: 2, cap: Chips(10) }] },
+    });
+    state = actOrThrow(state, SeatIndex(0), Call);
+    state = actOrThrow(state, SeatIndex(1), Call);
+    state = actOrThrow(state, SeatIndex(2), Check);
+    while (!isComplete(state)) state = playRoundWith(state, () => Check);
+
+    expect(chipsToNumber(state.rakeTaken)).toBe(3);
+    const rakeIdx = state.events.findIndex((e) => e._tag === "RakeTaken");
+    const showdownIdx = state.events.findIndex((e) => e._tag === "ShowdownStarted");
+    expect(rakeIdx).toBeGreaterThan(-1);
+    expect(rakeIdx).toBeLessThan(showdownIdx);
+    expect(state.players.reduce((sum, p) => sum + chipsToNumber(p.chips), 0)).toBe(297);
+  });
+
+  it("takes no rake from a hand won before the flop under no-flop-no-drop", () => {
+    const foldPreflop = (noFlopNoDrop: boolean) => {
+      let state = runStartHand(makePlayers(3), SeatIndex(0), DEFAULT_BLINDS, undefined, {
+        rake: { percentage: 50, noFlopNoDrop },
+      });
+      state = actOrThrow(state, SeatIndex(0), Fold);
+      return actOrThrow(state, SeatIndex(1), Fold);
+    };
+
+    const waived = foldPreflop(true);
+    expect(isComplete(waived)).toBe(true);
+    expect(chipsToNumber(waived.rakeTaken)).toBe(0);
+    expect(waived.events.some((e) => e._tag === "RakeTaken")).toBe(false);
+
+    const raked = foldPreflop(false);
+    expect(chipsToNumber(raked.rakeTaken)).toBe(1);
+  });
+});
+
+describe("Dead button", () => {
+  it("seats a dead button before the next player and posts only the big blind when the small is dead", () => {
+    const players = [0, 2, 4].map((i) => createPlayer(SeatIndex(i), Chips(100)));
+    const state = runStartHand(players, SeatIndex(3), DEFAULT_BLINDS, undefined, {
+      blinds: { bigBlind: SeatIndex(0) },
+    });
+
+    expect(state.seatOrder).toEqual([SeatIndex(2), SeatIndex(4), SeatIndex(0)]);
+    expect(Option.isNone(state.smallBlindSeat)).toBe(true);
+    expect(chipsToNumber(totalPotSize(state.pots)) + state.players.reduce((sum, p) => sum + chipsToNumber(p.currentBet), 0)).toBe(2);
+    expect(Option.getOrThrow(activePlayer(state))).toBe(SeatIndex(2));
+  });
+
+  it("posts missed blinds for a returning player away from the blinds", () => {
+    const players = makePlayers(4);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      missedBlinds: HashMap.make(
+        [SeatIndex(3), { smallBlind: true, bigBlind: true }],
+        [SeatIndex(2), { smallBlind: true, bigBlind: true }],
+      ),
+    });
+
+    // Seat 2 is on the big blind and owes nothing extra
+    const posts = state.events.filter((e) => e._tag === "MissedBlindsPosted");
+    expect(posts).toHaveLength(1);
+    expect(chipsToNumber(totalPotSize(state.pots))).toBe(1);
+    const returning = playerOrThrow(state, 3);
+    expect(chipsToNumber(returning.currentBet)).toBe(2);
+  });
+
+  it("rejects explicit blinds on a seat that isn't dealt in", () => {
+    const result = Effect.runSync(
+      Effect.either(
+        startHand(makePlayers(3), SeatIndex(0), DEFAULT_BLINDS, HandId("h"), {
+          blinds: { smallBlind: SeatIndex(1), bigBlind: SeatIndex(5) },
+        }),
+      ),
+    );
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+describe("Short-deck variant", () => {
+  it("deals from a 36-card deck with no 2s through 5s", () => {
+    const players = makePlayers(3);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS, undefined, {
+      variant: "ShortDeck",
+    });
+
+    expect(state.deck).toHaveLength(36 - 6);
+    const dealt = [...state.deck, ...state.players.flatMap((p) => Option.getOrThrow(p.holeCards))];
+    expect(dealt.every((c) => c.rank >= 6)).toBe(true);
+  });
+});
+
 describe("Heads-up fold preflop", () => {
   it("button folds -> other player wins, hand is complete", () => {
     const players = makePlayers(2);
@@ -126,6 +688,48 @@ describe("Heads-up fold preflop", () => {
   });
 });
 
+describe("Uncalled bets", () => {
+  it("returns the big blind's uncalled half when the small blind folds", () => {
+    const players = makePlayers(2);
+    const state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS);
+    const after = actOrThrow(state, SeatIndex(0), Fold);
+
+    const returned = after.events.find((e) => e._tag === "UncalledBetReturned");
+    if (returned?._tag !== "UncalledBetReturned") throw new Error("missing UncalledBetReturned");
+    expect(returned.seat).toBe(SeatIndex(1));
+    expect(chipsToNumber(returned.amount)).toBe(1);
+
+    const awarded = after.events.find((e) => e._tag === "PotAwarded");
+    if (awarded?._tag !== "PotAwarded") throw new Error("missing PotAwarded");
+    expect(chipsToNumber(awarded.amount)).toBe(2);
+  });
+
+  it("returns an all-in overbet to the bettor and runs the board out", () => {
+    const players = [
+      createPlayer(SeatIndex(0), Chips(200)),
+      createPlayer(SeatIndex(1), Chips(50)),
+    ];
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS);
+    state = actOrThrow(state, SeatIndex(0), AllIn);
+    state = actOrThrow(state, SeatIndex(1), AllIn);
+
+    expect(isComplete(state)).toBe(true);
+    expect(getCommunityCards(state)).toHaveLength(5);
+
+    const returned = state.events.find((e) => e._tag === "UncalledBetReturned");
+    if (returned?._tag !== "UncalledBetReturned") throw new Error("missing UncalledBetReturned");
+    expect(returned.seat).toBe(SeatIndex(0));
+    expect(chipsToNumber(returned.amount)).toBe(150);
+
+    const awardedTotal = state.events
+      .filter((e) => e._tag === "PotAwarded")
+      .reduce((sum, e) => sum + (e._tag === "PotAwarded" ? chipsToNumber(e.amount) : 0), 0);
+    expect(awardedTotal).toBe(100);
+    const total = state.players.reduce((sum, p) => sum + chipsToNumber(p.chips), 0);
+    expect(total).toBe(250);
+  });
+});
+
 describe("3-player hand: everyone checks to showdown", () => {
   it("progresses through all phases and ends at Complete", () => {
     const players = makePlayers(3, 100);
@@ -143,19 +747,35 @@ describe("3-player hand: everyone checks to showdown", () => {
     state = actOrThrow(state, seat, Check);
 
     expect(state.phase).toBe("Flop");
-    expect(state.communityCards).toHaveLength(3);
+    expect(getCommunityCards(state)).toHaveLength(3);
 
     state = playRoundWith(state, () => Check);
     expect(state.phase).toBe("Turn");
-    expect(state.communityCards).toHaveLength(4);
+    expect(getCommunityCards(state)).toHaveLength(4);
 
     state = playRoundWith(state, () => Check);
     expect(state.phase).toBe("River");
-    expect(state.communityCards).toHaveLength(5);
+    expect(getCommunityCards(state)).toHaveLength(5);
 
     state = playRoundWith(state, () => Check);
     expect(isComplete(state)).toBe(true);
     expect(state.phase).toBe("Complete");
   });
-});
 
+  it("reveals each hand with its comparison key", () => {
+    const players = makePlayers(3, 100);
+    let state = runStartHand(players, SeatIndex(0), DEFAULT_BLINDS);
+    state = actOrThrow(state, SeatIndex(0), Call);
+    state = actOrThrow(state, SeatIndex(1), Call);
+    while (!isComplete(state)) state = playRoundWith(state, () => Check);
+
+    const revealed = state.events.filter((e) => e._tag === "PlayerRevealed");
+    expect(revealed).toHaveLength(3);
+    for (const e of revealed) {
+      if (e._tag !== "PlayerRevealed") continue;
+      const hand = Either.getOrThrow(evaluateHoldem(e.holeCards, getCommunityCards(state)));
+      expect(e.handKey).toEqual(hand.key);
+      expect(e.handKey[0]).toBe(e.handRank);
+    }
+  });
+});
@@ -11,6 +11,7 @@ import type { TableConfig, TableState } from "../src/table.js";
 import { Chips, SeatIndex, chipsToNumber, seatIndexToNumber } from "../src/brand.js";
 import { Fold, Call, Check } from "../src/action.js";
 import type { ForcedBets } from "../src/hand.js";
+import { getCommunityCards } from "../src/hand.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -138,21 +139,21 @@ describe("Integration: 3-player hand to showdown", () => {
     expect(Option.isSome(table.currentHand)).toBe(true);
     if (Option.isSome(table.currentHand)) {
       expect(table.currentHand.value.phase).toBe("Flop");
-      expect(table.currentHand.value.communityCards).toHaveLength(3);
+      expect(getCommunityCards(table.currentHand.value)).toHaveLength(3);
     }
 
     table = playTableRound(table, () => Check);
     expect(Option.isSome(table.currentHand)).toBe(true);
     if (Option.isSome(table.currentHand)) {
       expect(table.currentHand.value.phase).toBe("Turn");
-      expect(table.currentHand.value.communityCards).toHaveLength(4);
+      expect(getCommunityCards(table.currentHand.value)).toHaveLength(4);
     }
 
     table = playTableRound(table, () => Check);
     expect(Option.isSome(table.currentHand)).toBe(true);
     if (Option.isSome(table.currentHand)) {
       expect(table.currentHand.value.phase).toBe("River");
-      expect(table.currentHand.value.communityCards).toHaveLength(5);
+      expect(getCommunityCards(table.currentHand.value)).toHaveLength(5);
     }
 
     table = playTableRound(table, () => Check);
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { Array as A, Effect, Either, HashMap, Option, pipe } from "effect";
+import { Array as A, Effect, Either, HashMap, Option, TestClock, TestContext, pipe } from "effect";
 import { SeatIndex, Chips, chipsToNumber } from "../src/brand.js";
 import { Fold, Bet } from "../src/action.js";
 import type { GameEvent } from "../src/event.js";
@@ -196,6 +196,37 @@ describe("playGame", () => {
 
     expect(totalChips(result.state)).toBe(initialChips);
   });
+
+  it("raises the blinds on the clock", async () => {
+    let table = Either.getOrThrow(
+      createTable({
+        maxSeats: 10,
+        forcedBets: { smallBlind: Chips(5), bigBlind: Chips(10) },
+        blindSchedule: {
+          levels: [
+            { forcedBets: { smallBlind: Chips(5), bigBlind: Chips(10) }, duration: "5 minutes" },
+            { forcedBets: { smallBlind: Chips(10), bigBlind: Chips(20) } },
+          ],
+        },
+      }),
+    );
+    for (let i = 0; i < 3; i++) {
+      table = Either.getOrThrow(sitDown(table, SeatIndex(i), Chips(1000)));
+    }
+
+    // Every decision takes a minute
+    const slowFold = () => Effect.as(TestClock.adjust("1 minute"), Fold);
+    const events: GameEvent[] = [];
+    const result = await Effect.runPromise(
+      pipe(
+        playGame(slowFold, { stopWhen: stopAfterHands(4), onEvent: (e) => events.push(e) })(table),
+        Effect.provide(TestContext.TestContext),
+      ),
+    );
+
+    expect(events.filter((e) => e._tag === "BlindLevelChanged")).toHaveLength(1);
+    expect(result.state.config.forcedBets.bigBlind).toBe(Chips(20));
+  });
 });
 
 // ---------------------------------------------------------------------------
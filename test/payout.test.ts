@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { Either, HashMap, Option } from "effect";
+import { Chips, SeatIndex } from "../src/brand.js";
+import { createTable, sitDown } from "../src/table.js";
+import { finishProbabilities, icmEquities, proposeDeal, tableEquities } from "../src/payout.js";
+import type { Deal } from "../src/payout.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const stacks = (...chips: number[]) => chips.map((c) => Chips(c));
+
+const sum = (values: readonly number[]) => values.reduce((a, b) => a + b, 0);
+
+function dealOrThrow(...args: Parameters<typeof proposeDeal>): Deal {
+  const result = proposeDeal(...args);
+  if (Either.isLeft(result)) throw new Error(result.left.reason);
+  return result.right;
+}
+
+// ---------------------------------------------------------------------------
+// finishProbabilities
+// ---------------------------------------------------------------------------
+
+describe("finishProbabilities", () => {
+  it("gives first place in proportion to chips", () => {
+    const probs = finishProbabilities(stacks(50, 30, 20));
+    expect(probs.map((row) => row[0])).toEqual([0.5, 0.3, 0.2]);
+  });
+
+  it("follows Malmuth-Harville for later places", () => {
+    const probs = finishProbabilities(stacks(50, 30, 20));
+    // Second place for the 50 stack: 0.3 * 50/70 + 0.2 * 50/80
+    expect(probs[0]?.[1]).toBeCloseTo(0.3 * (50 / 70) + 0.2 * (50 / 80));
+  });
+
+  it("fills every place and gives every player a place", () => {
+    const probs = finishProbabilities(stacks(40, 25, 20, 10, 5));
+    for (const row of probs) expect(sum(row)).toBeCloseTo(1);
+    for (let place = 0; place < 5; place++) {
+      expect(sum(probs.map((row) => row[place] ?? 0))).toBeCloseTo(1);
+    }
+  });
+
+  it("computes only the places asked for", () => {
+    const probs = finishProbabilities(stacks(40, 25, 20, 10, 5), 2);
+    expect(probs.every((row) => row.length === 2)).toBe(true);
+  });
+
+  it("puts busted players last", () => {
+    const probs = finishProbabilities(stacks(60, 40, 0));
+    expect(probs[2]).toEqual([0, 0, 1]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// icmEquities
+// ---------------------------------------------------------------------------
+
+describe("icmEquities", () => {
+  it("splits equal stacks equally", () => {
+    for (const equity of icmEquities(stacks(100, 100, 100, 100), [50, 30, 20])) {
+      expect(equity).toBeCloseTo(25);
+    }
+  });
+
+  it("pays out the whole prize pool", () => {
+    expect(sum(icmEquities(stacks(5000, 3000, 1500, 500), [500, 300, 200]))).toBeCloseTo(1000);
+  });
+
+  it("gives the chip leader less than their chip share", () => {
+    const [leader] = icmEquities(stacks(7000, 2000, 1000), [500, 300, 200]);
+    expect(leader).toBeLessThan(700);
+    expect(leader).toBeCloseTo(0.7 * 500 + (0.2 * 7 / 8 + 0.1 * 7 / 9) * 300 + (0.2 * 1 / 8 + 0.1 * 2 / 9) * 200);
+  });
+
+  it("ignores prizes for places nobody can finish in", () => {
+    expect(sum(icmEquities(stacks(100, 100), [50, 30, 20]))).toBeCloseTo(80);
+  });
+});
+
+describe("tableEquities", () => {
+  it("returns each seat's equity", () => {
+    let table = Either.getOrThrow(createTable({ maxSeats: 6, forcedBets: { smallBlind: Chips(1), bigBlind: Chips(2) } }));
+    table = Either.getOrThrow(sitDown(table, SeatIndex(1), Chips(300)));
+    table = Either.getOrThrow(sitDown(table, SeatIndex(4), Chips(100)));
+    const equities = tableEquities(table, [70, 30]);
+    expect(Option.getOrThrow(HashMap.get(equities, SeatIndex(1)))).toBeCloseTo(0.75 * 70 + 0.25 * 30);
+    expect(Option.getOrThrow(HashMap.get(equities, SeatIndex(4)))).toBeCloseTo(0.25 * 70 + 0.75 * 30);
+    expect(HashMap.size(equities)).toBe(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// proposeDeal
+// ---------------------------------------------------------------------------
+
+describe("proposeDeal", () => {
+  const chips = stacks(6000, 3000, 1000);
+  const prizes = [500, 300, 200];
+
+  it("pays ICM equities in an ICM chop", () => {
+    const deal = dealOrThrow(chips, prizes, "Icm");
+    expect(deal.payouts).toEqual(icmEquities(chips, prizes));
+  });
+
+  it("guarantees the smallest prize in a chip chop and splits the rest by chips", () => {
+    const deal = dealOrThrow(chips, prizes, "ChipChop");
+    // 200 each, then 400 split 60/30/10
+    expect(deal.payouts[0]).toBeCloseTo(440);
+    expect(deal.payouts[1]).toBeCloseTo(320);
+    expect(deal.payouts[2]).toBeCloseTo(240);
+  });
+
+  it("leaves the reserve to play for", () => {
+    for (const method of ["Icm", "ChipChop"] as const) {
+      const deal = dealOrThrow(chips, prizes, method, 100);
+      expect(deal.reserve).toBe(100);
+      expect(sum(deal.payouts)).toBeCloseTo(900);
+    }
+  });
+
+  it("rejects a reserve that is negative, not finite or larger than first prize", () => {
+    for (const reserve of [-50, Number.NaN, Number.POSITIVE_INFINITY, 501]) {
+      const result = proposeDeal(chips, prizes, "Icm", reserve);
+      expect(Either.isLeft(result) && result.left._tag).toBe("InvalidConfig");
+    }
+    expect(Either.isRight(proposeDeal(chips, prizes, "ChipChop", 500))).toBe(true);
+  });
+});
@@ -3,7 +3,8 @@ import { Arbitrary, FastCheck } from "effect";
 import { Effect, Either, Option } from "effect";
 import { SeatIndex, Chips } from "../src/brand.js";
 import { createPlayer } from "../src/player.js";
-import { createTable, sitDown, startNextHand } from "../src/table.js";
+import { act, createTable, getActivePlayer, sitDown, startNextHand } from "../src/table.js";
+import { Fold } from "../src/action.js";
 import type { TableState } from "../src/table.js";
 import {
   computePositionalRoles,
@@ -187,6 +188,29 @@ describe("buildStrategyContext", () => {
     const ctx = buildStrategyContext(table, SeatIndex(9), []);
     expect(Option.isNone(ctx)).toBe(true);
   });
+
+  it("includes ICM equities only when the table has prizes", () => {
+    const plain = Option.getOrThrow(buildStrategyContext(startedTable(4), SeatIndex(3), []));
+    expect(Option.isNone(plain.icmEquities)).toBe(true);
+
+    let table = Either.getOrThrow(
+      createTable({ maxSeats: 10, forcedBets: DEFAULT_BLINDS, prizes: [50, 30, 20] }),
+    );
+    for (let i = 0; i < 4; i++) {
+      table = Either.getOrThrow(sitDown(table, SeatIndex(i), Chips(1000)));
+    }
+    table = Effect.runSync(startNextHand(table));
+    const ctx = Option.getOrThrow(buildStrategyContext(table, SeatIndex(3), []));
+    const equities = Option.getOrThrow(ctx.icmEquities);
+    expect(equities).toHaveLength(4);
+    for (const { equity } of equities) {
+      expect(equity).toBeCloseTo(25);
+    }
+
+    // Worked out once when the hand is dealt, not again for each decision
+    const acted = Either.getOrThrow(act(table, Option.getOrThrow(getActivePlayer(table)), Fold));
+    expect(acted.icmEquities).toBe(table.icmEquities);
+  });
 });
 
 // ---------------------------------------------------------------------------
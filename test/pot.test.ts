@@ -1,11 +1,11 @@
 import { describe, it, expect } from "vitest";
 import { Chips, SeatIndex, chipsToNumber } from "../src/brand.js";
-import type { BettingPlayer, Pot } from "../src/pot.js";
-import { collectBets, awardPots, totalPotSize, createPot } from "../src/pot.js";
+import type { BettingPlayer, Pot, Rake } from "../src/pot.js";
+import { addDeadMoney, collectAntes, collectBets, uncalledBet, awardPots, splitPots, rakeCap, takeRake, totalPotSize, createPot } from "../src/pot.js";
 import { evaluate } from "../src/evaluator.js";
 import type { HandRank } from "../src/evaluator.js";
 import { unsafeCardFromString } from "../src/card.js";
-import { Either } from "effect";
+import { Either, Option } from "effect";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -30,6 +30,7 @@ function handRank(rank: number): HandRank {
     description: `Hand with rank ${rank}`,
     rank,
     bestCards: [],
+    key: [rank],
   };
 }
 
@@ -157,6 +158,93 @@ describe("collectBets", () => {
 
 });
 
+// ---------------------------------------------------------------------------
+// uncalledBet
+// ---------------------------------------------------------------------------
+
+describe("uncalledBet", () => {
+  it("returns the excess of the largest bet over the second largest", () => {
+    const result = uncalledBet([bp(0, 100, { isAllIn: true }), bp(1, 40, { isAllIn: true })]);
+    expect(Option.getOrThrow(result)).toEqual({ seat: SeatIndex(0), amount: Chips(60) });
+  });
+
+  it("counts a folded player's bet as called chips", () => {
+    const result = uncalledBet([bp(0, 25), bp(1, 10, { isFolded: true })]);
+    expect(Option.getOrThrow(result)).toEqual({ seat: SeatIndex(0), amount: Chips(15) });
+  });
+
+  it("returns none when the top bet was matched", () => {
+    expect(Option.isNone(uncalledBet([bp(0, 50), bp(1, 50), bp(2, 20)]))).toBe(true);
+    expect(Option.isNone(uncalledBet([bp(0, 0), bp(1, 0)]))).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// collectAntes
+// ---------------------------------------------------------------------------
+
+describe("collectAntes", () => {
+  it("equal antes form a single pot everyone is eligible for", () => {
+    const pots = collectAntes(
+      [0, 1, 2].map((s) => ({ seatIndex: SeatIndex(s), amount: Chips(10), isAllIn: false })),
+      [],
+    );
+
+    expect(pots.map((p) => chipsToNumber(p.amount))).toEqual([30]);
+    expect(pots[0]?.eligibleSeats).toHaveLength(3);
+  });
+
+  it("a partial ante caps the all-in player's share", () => {
+    const pots = collectAntes(
+      [
+        { seatIndex: SeatIndex(0), amount: Chips(4), isAllIn: true },
+        { seatIndex: SeatIndex(1), amount: Chips(10), isAllIn: false },
+        { seatIndex: SeatIndex(2), amount: Chips(10), isAllIn: false },
+      ],
+      [],
+    );
+
+    expect(pots.map((p) => chipsToNumber(p.amount))).toEqual([12, 12]);
+    expect(pots[1]?.eligibleSeats).toEqual([SeatIndex(1), SeatIndex(2)]);
+  });
+
+  it("ante pot merges with later bets once folded seats are dropped", () => {
+    const antePots = collectAntes(
+      [0, 1, 2].map((s) => ({ seatIndex: SeatIndex(s), amount: Chips(5), isAllIn: false })),
+      [],
+    );
+
+    const { pots } = collectBets(
+      [bp(0, 0, { isFolded: true }), bp(1, 20), bp(2, 20)],
+      antePots,
+    );
+
+    expect(pots.map((p) => chipsToNumber(p.amount))).toEqual([55]);
+    expect(pots[0]?.eligibleSeats).toEqual([SeatIndex(1), SeatIndex(2)]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// addDeadMoney
+// ---------------------------------------------------------------------------
+
+describe("addDeadMoney", () => {
+  it("creates a main pot when there is none", () => {
+    const pots = addDeadMoney([], Chips(10), [SeatIndex(0), SeatIndex(1)]);
+    expect(pots.map((p) => chipsToNumber(p.amount))).toEqual([10]);
+  });
+
+  it("adds to the main pot, never to a side pot", () => {
+    const existing: readonly Pot[] = [
+      createPot(Chips(30), [SeatIndex(0), SeatIndex(1), SeatIndex(2)]),
+      createPot(Chips(20), [SeatIndex(1), SeatIndex(2)]),
+    ];
+    const pots = addDeadMoney(existing, Chips(5), [SeatIndex(0), SeatIndex(1), SeatIndex(2)]);
+
+    expect(pots.map((p) => chipsToNumber(p.amount))).toEqual([35, 20]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // awardPots
 // ---------------------------------------------------------------------------
@@ -201,6 +289,22 @@ describe("awardPots", () => {
     expect(chipsToNumber(seat1Award.amount)).toBe(150);
   });
 
+  it("dead money with no live contributor goes to the best remaining hand", () => {
+    const pots: readonly Pot[] = [
+      createPot(Chips(30), [SeatIndex(0), SeatIndex(1), SeatIndex(2)]),
+      createPot(Chips(20), [SeatIndex(2), SeatIndex(3)]),
+    ];
+    const hands = new Map<SeatIndex, HandRank>([
+      [SeatIndex(0), handRank(2)],
+      [SeatIndex(1), handRank(6)],
+    ]);
+
+    const awards = awardPots(pots, hands, SeatIndex(0), seatOrder);
+    expect(awards).toHaveLength(2);
+    expect(awards.every((a) => a.seat === SeatIndex(1))).toBe(true);
+    expect(awards.reduce((sum, a) => sum + chipsToNumber(a.amount), 0)).toBe(50);
+  });
+
   it("odd chip goes to first player clockwise from button", () => {
     const pots: readonly Pot[] = [
       createPot(Chips(301), [SeatIndex(0), SeatIndex(1), SeatIndex(2)]),
@@ -276,6 +380,150 @@ describe("awardPots", () => {
 
 });
 
+// ---------------------------------------------------------------------------
+// awardPots — hi-lo split
+// ---------------------------------------------------------------------------
+
+describe("awardPots — hi-lo", () => {
+  const seatOrder = [SeatIndex(0), SeatIndex(1), SeatIndex(2)];
+  const threeWay = [SeatIndex(0), SeatIndex(1), SeatIndex(2)];
+
+  /** Low hand from its five ranks (ace = 1); lower lows compare higher. */
+  function lowRank(...ranks: number[]): HandRank {
+    return { name: "Low", description: `${ranks.join("-")} Low`, rank: 0, bestCards: [], key: [0, ...ranks.map((r) => -r)] };
+  }
+
+  it("splits the pot between high and low, odd chip to the high half", () => {
+    const pots = [createPot(Chips(101), [SeatIndex(0), SeatIndex(1)])];
+    const highs = new Map([[SeatIndex(0), handRank(5)], [SeatIndex(1), handRank(2)]]);
+    const lows = new Map([[SeatIndex(1), lowRank(7, 5, 4, 2, 1)]]);
+
+    const awards = awardPots(pots, highs, SeatIndex(2), seatOrder, lows);
+    expect(awards.map((a) => [a.seat, chipsToNumber(a.amount), a.half])).toEqual([
+      [SeatIndex(0), 51, "High"],
+      [SeatIndex(1), 50, "Low"],
+    ]);
+  });
+
+  it("gives the whole pot to the high hand when no low qualifies", () => {
+    const pots = [createPot(Chips(100), [SeatIndex(0), SeatIndex(1)])];
+    const highs = new Map([[SeatIndex(0), handRank(5)], [SeatIndex(1), handRank(2)]]);
+
+    const awards = awardPots(pots, highs, SeatIndex(2), seatOrder, new Map());
+    expect(awards).toHaveLength(1);
+    expect(awards[0]).toMatchObject({ half: "High", amount: Chips(100) });
+  });
+
+  it("quarters the pot when two players tie for low", () => {
+    const pots = [createPot(Chips(400), threeWay)];
+    const highs = new Map([
+      [SeatIndex(0), handRank(6)],
+      [SeatIndex(1), handRank(2)],
+      [SeatIndex(2), handRank(1)],
+    ]);
+    const lows = new Map([
+      [SeatIndex(1), lowRank(8, 5, 3, 2, 1)],
+      [SeatIndex(2), lowRank(8, 5, 3, 2, 1)],
+    ]);
+
+    const awards = awardPots(pots, highs, SeatIndex(0), seatOrder, lows);
+    expect(awards.map((a) => [a.seat, chipsToNumber(a.amount), a.half])).toEqual([
+      [SeatIndex(0), 200, "High"],
+      [SeatIndex(1), 100, "Low"],
+      [SeatIndex(2), 100, "Low"],
+    ]);
+  });
+
+  it("lets one player scoop both halves", () => {
+    const pots = [createPot(Chips(300), threeWay)];
+    const highs = new Map([
+      [SeatIndex(0), handRank(5)],
+      [SeatIndex(1), handRank(2)],
+      [SeatIndex(2), handRank(1)],
+    ]);
+    const lows = new Map([
+      [SeatIndex(0), lowRank(6, 4, 3, 2, 1)],
+      [SeatIndex(2), lowRank(8, 7, 6, 5, 4)],
+    ]);
+
+    const awards = awardPots(pots, highs, SeatIndex(0), seatOrder, lows);
+    expect(awards.every((a) => a.seat === SeatIndex(0))).toBe(true);
+    expect(awards.map((a) => a.half)).toEqual(["High", "Low"]);
+    expect(awards.reduce((sum, a) => sum + chipsToNumber(a.amount), 0)).toBe(300);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// splitPots
+// ---------------------------------------------------------------------------
+
+describe("splitPots", () => {
+  it("splits each pot evenly, odd chips to the earliest runs", () => {
+    const pots = [
+      createPot(Chips(301), [SeatIndex(0), SeatIndex(1), SeatIndex(2)]),
+      createPot(Chips(50), [SeatIndex(1), SeatIndex(2)]),
+    ];
+
+    const parts = splitPots(pots, 3);
+    expect(parts.map((ps) => ps.map((p) => chipsToNumber(p.amount)))).toEqual([
+      [101, 17],
+      [100, 17],
+      [100, 16],
+    ]);
+    expect(parts[2]?.[1]?.eligibleSeats).toEqual([SeatIndex(1), SeatIndex(2)]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// takeRake
+// ---------------------------------------------------------------------------
+
+describe("takeRake", () => {
+  const rake: Rake = {
+    percentage: 5,
+    caps: [
+      { players: 2, cap: Chips(1) },
+      { players: 5, cap: Chips(4) },
+      { players: 3, cap: Chips(3) },
+    ],
+  };
+
+  it("picks the cap for the largest player count not above the hand's", () => {
+    expect(Option.getOrThrow(rakeCap(rake, 2))).toBe(1);
+    expect(Option.getOrThrow(rakeCap(rake, 4))).toBe(3);
+    expect(Option.getOrThrow(rakeCap(rake, 9))).toBe(4);
+    expect(Option.isNone(rakeCap({ percentage: 5 }, 9))).toBe(true);
+  });
+
+  it("applies the smallest tier to a hand smaller than every tier", () => {
+    const fullRing: Rake = { percentage: 5, caps: [{ players: 5, cap: Chips(4) }, { players: 3, cap: Chips(3) }] };
+    expect(Option.getOrThrow(rakeCap(fullRing, 2))).toBe(3);
+
+    const result = takeRake([createPot(Chips(200), [SeatIndex(0), SeatIndex(1)])], fullRing, 2);
+    expect(chipsToNumber(result.rake)).toBe(3);
+  });
+
+  it("takes the percentage of each pot, rounded down", () => {
+    const pots = [createPot(Chips(59), [SeatIndex(0), SeatIndex(1)])];
+    const result = takeRake(pots, { percentage: 5 }, 2);
+
+    expect(chipsToNumber(result.rake)).toBe(2);
+    expect(result.pots.map((p) => chipsToNumber(p.amount))).toEqual([57]);
+  });
+
+  it("stops at the cap, taking from the main pot first", () => {
+    const pots = [
+      createPot(Chips(60), [SeatIndex(0), SeatIndex(1), SeatIndex(2)]),
+      createPot(Chips(40), [SeatIndex(1), SeatIndex(2)]),
+    ];
+    const result = takeRake(pots, rake, 3);
+
+    expect(chipsToNumber(result.rake)).toBe(3);
+    expect(result.pots.map((p) => chipsToNumber(p.amount))).toEqual([57, 40]);
+    expect(result.pots[1]?.eligibleSeats).toEqual([SeatIndex(1), SeatIndex(2)]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // totalPotSize
 // ---------------------------------------------------------------------------
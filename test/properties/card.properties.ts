@@ -7,6 +7,8 @@ import {
   SUITS,
   toPokersolverString,
   cardFromString,
+  cardCode,
+  fromCardCode,
 } from "../../src/card.js";
 import { arbCard } from "../arbitraries.js";
 
@@ -44,6 +46,18 @@ describe("card -- property-based", () => {
     );
   });
 
+  it("roundtrip: fromCardCode(cardCode(c)) reconstructs the card, and codes index ALL_CARDS", () => {
+    fc.assert(
+      fc.property(arbCard, (c) => {
+        const code = cardCode(c);
+        expect(code).toBeGreaterThanOrEqual(0);
+        expect(code).toBeLessThan(52);
+        expect(fromCardCode(code)).toEqual(c);
+        expect(ALL_CARDS[code]).toEqual(c);
+      }),
+    );
+  });
+
   it("ALL_CARDS covers all 13x4 = 52 rank x suit combinations", () => {
     // This is a deterministic property but we express it as an assertion block
     // consistent with the property style: every (rank, suit) pair appears.
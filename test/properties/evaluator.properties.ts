@@ -1,9 +1,10 @@
 import { describe, it, expect } from "vitest";
 import fc from "fast-check";
 import { Either } from "effect";
+import pokersolver from "pokersolver";
 import { evaluate, compare, winners } from "../../src/evaluator.js";
 import type { HandRank } from "../../src/evaluator.js";
-import { ALL_CARDS, card } from "../../src/card.js";
+import { ALL_CARDS, card, toPokersolverString } from "../../src/card.js";
 import type { Card } from "../../src/card.js";
 
 // ---------------------------------------------------------------------------
@@ -17,6 +18,11 @@ function evalOrThrow(cards: readonly Card[]): HandRank {
   return result.right;
 }
 
+/** pokersolver's reading of the same cards — the reference for differential tests. */
+function solveReference(cards: readonly Card[]) {
+  return pokersolver.Hand.solve(cards.map(toPokersolverString));
+}
+
 /** A known royal flush (A-K-Q-J-T of spades). */
 const ROYAL_FLUSH_CARDS: readonly Card[] = [
   card(14, "s"),
@@ -41,6 +47,14 @@ const arbHand5to7 = fc.integer({ min: 5, max: 7 }).chain((n) =>
   fc.shuffledSubarray([...ALL_CARDS], { minLength: n, maxLength: n }),
 );
 
+/** 5-7 cards from two suits of A and 2-7, so straights, wheels and flushes come up often. */
+const arbDenseHand = fc.integer({ min: 5, max: 7 }).chain((n) =>
+  fc.shuffledSubarray(
+    ALL_CARDS.filter((c) => (c.rank <= 7 || c.rank === 14) && (c.suit === "h" || c.suit === "s")),
+    { minLength: n, maxLength: n },
+  ),
+);
+
 // ---------------------------------------------------------------------------
 // Properties
 // ---------------------------------------------------------------------------
@@ -199,4 +213,42 @@ describe("evaluator -- property-based", () => {
       ),
     );
   });
+
+  it("differential: name, rank, description and best cards match pokersolver", () => {
+    fc.assert(
+      fc.property(fc.oneof(arbHand5to7, arbDenseHand), (hand) => {
+        const ours = evalOrThrow(hand);
+        const ref = solveReference(hand);
+
+        expect(ours.name).toBe(ref.name);
+        expect(ours.rank).toBe(ref.rank);
+        expect(ours.description).toBe(ref.descr);
+        // pokersolver writes a low ace as "1" and may list more than five cards
+        expect(ours.bestCards.map((c) => c.charAt(0))).toEqual(
+          ref.cards.slice(0, 5).map((c) => (c.value === "1" ? "A" : c.value)),
+        );
+      }),
+      { numRuns: 2000 },
+    );
+  });
+
+  it("differential: compare agrees with pokersolver on shared boards", () => {
+    fc.assert(
+      fc.property(
+        fc.shuffledSubarray([...ALL_CARDS], { minLength: 9, maxLength: 9 }),
+        (nine) => {
+          const board = nine.slice(4);
+          const a = [...nine.slice(0, 2), ...board];
+          const b = [...nine.slice(2, 4), ...board];
+          const refA = solveReference(a);
+          const refB = solveReference(b);
+          const refWinners = pokersolver.Hand.winners([refA, refB]);
+          const expected = refWinners.length === 2 ? 0 : refWinners[0] === refA ? 1 : -1;
+
+          expect(compare(evalOrThrow(a), evalOrThrow(b))).toBe(expected);
+        },
+      ),
+      { numRuns: 2000 },
+    );
+  });
 });
@@ -8,6 +8,7 @@ import {
   activePlayer,
   isComplete,
   getLegalActions,
+  getCommunityCards,
 } from "../../src/hand.js";
 import type { HandState, Phase } from "../../src/hand.js";
 import {
@@ -254,12 +255,12 @@ describe("hand -- property-based", () => {
           for (const s of states) {
             const expected = EXPECTED_COMMUNITY_CARDS[s.phase];
             if (expected !== null) {
-              expect(s.communityCards.length).toBe(expected);
+              expect(getCommunityCards(s).length).toBe(expected);
             }
             // For "Complete" phase, community cards should be 0, 3, 4, or 5
             // (depending on when the hand ended)
             if (s.phase === "Complete") {
-              expect([0, 3, 4, 5]).toContain(s.communityCards.length);
+              expect([0, 3, 4, 5]).toContain(getCommunityCards(s).length);
             }
           }
         },
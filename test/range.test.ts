@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { Either, HashMap, Schema } from "effect";
+import {
+  parseRange,
+  formatRange,
+  rangeCombos,
+  rangeFromCombos,
+  rangeSize,
+  unionRanges,
+  intersectRanges,
+  subtractRange,
+  removeBlocked,
+  RangeSchema,
+} from "../src/range.js";
+import { unsafeCardFromString, toPokersolverString } from "../src/card.js";
+
+function range(notation: string) {
+  return Either.getOrThrow(parseRange(notation));
+}
+
+function comboStrings(notation: string) {
+  return rangeCombos(range(notation)).map(({ combo: [a, b] }) => toPokersolverString(a) + toPokersolverString(b));
+}
+
+describe("parseRange", () => {
+  it("counts combos for pairs, suited and offsuit classes", () => {
+    expect(rangeSize(range("AA"))).toBe(6);
+    expect(rangeSize(range("AKs"))).toBe(4);
+    expect(rangeSize(range("AKo"))).toBe(12);
+    expect(rangeSize(range("AK"))).toBe(16);
+  });
+
+  it("expands plus and dash runs", () => {
+    expect(rangeSize(range("TT+"))).toBe(5 * 6);
+    expect(rangeSize(range("TT-77"))).toBe(4 * 6);
+    expect(rangeSize(range("AQs+"))).toBe(2 * 4);
+    expect(rangeSize(range("K9o-K6o"))).toBe(4 * 12);
+    expect(formatRange(range("76s-54s"))).toBe("76s-54s");
+    expect(rangeSize(range("76s-54s"))).toBe(3 * 4);
+  });
+
+  it("reads specific combos with suit wildcards", () => {
+    expect(comboStrings("AhKh")).toEqual(["AhKh"]);
+    expect(rangeSize(range("AxKx"))).toBe(16);
+    expect(rangeSize(range("AxAx"))).toBe(6);
+    expect(comboStrings("AsKx")).toHaveLength(4);
+  });
+
+  it("applies weights and keeps the larger weight for overlaps", () => {
+    expect(rangeSize(range("AKs:0.5"))).toBe(2);
+    expect(rangeSize(range("AKs:0.5, AhKh"))).toBe(2.5);
+  });
+
+  it("accepts whitespace and ignores empty tokens", () => {
+    expect(formatRange(range(" TT+ ,, AKs "))).toBe("TT+, AKs");
+    expect(rangeSize(range(""))).toBe(0);
+  });
+
+  it("rejects malformed tokens", () => {
+    for (const bad of ["AAs", "AK+s", "AKx", "AA:0", "AA:1.5", "AKs-AQo", "KQs-T9s-98s", "AKs-QTs", "AhAh", "ZZ"]) {
+      const result = parseRange(`TT+, ${bad}`);
+      expect(Either.isLeft(result), bad).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("InvalidRange");
+        expect(result.left.reason).toContain(bad);
+      }
+    }
+  });
+});
+
+describe("formatRange", () => {
+  it("prints the canonical form of the standard example", () => {
+    expect(formatRange(range("TT+, AQs+, KJo, 76s-54s, AxKx"))).toBe("TT+, AQs+, 76s-54s, AKo, KJo");
+  });
+
+  it("round-trips canonical notation", () => {
+    for (const notation of [
+      "22+",
+      "99-66",
+      "AA, QQ:0.5",
+      "A2s+, K9s-K6s, T9s-54s",
+      "AJo+, KQo:0.75",
+      "AsKs:0.5, AhKh",
+    ]) {
+      const printed = formatRange(range(notation));
+      expect(HashMap.size(range(printed))).toBe(HashMap.size(range(notation)));
+      expect(formatRange(range(printed))).toBe(printed);
+      expect(rangeSize(range(printed))).toBe(rangeSize(range(notation)));
+    }
+  });
+
+  it("lists combos of a partial class individually", () => {
+    expect(formatRange(range("AKs, KK"))).toBe("KK, AKs");
+    expect(formatRange(subtractRange(range("AKs"), range("AhKh")))).toBe("AsKs, AdKd, AcKc");
+  });
+});
+
+describe("range algebra", () => {
+  it("union keeps the larger weight", () => {
+    expect(formatRange(unionRanges(range("QQ+:0.5"), range("AA")))).toBe("AA, KK-QQ:0.5");
+  });
+
+  it("intersection keeps the smaller weight", () => {
+    expect(formatRange(intersectRanges(range("TT+"), range("QQ-77:0.5")))).toBe("QQ-TT:0.5");
+  });
+
+  it("subtraction removes weight and drops empty combos", () => {
+    expect(formatRange(subtractRange(range("TT+"), range("AA, KK:0.25")))).toBe("KK:0.75, QQ-TT");
+  });
+
+  it("removes combos blocked by known cards", () => {
+    const blocked = removeBlocked(range("AA, AKs"), [unsafeCardFromString("As")]);
+    expect(rangeSize(blocked)).toBe(3 + 3);
+    expect(formatRange(blocked)).toBe("AhAd, AhAc, AdAc, AhKh, AdKd, AcKc");
+  });
+
+  it("builds ranges from weighted combos", () => {
+    const combo = [unsafeCardFromString("Kh"), unsafeCardFromString("Ah")] as const;
+    expect(formatRange(rangeFromCombos([{ combo, weight: 0.5 }]))).toBe("AhKh:0.5");
+  });
+});
+
+describe("RangeSchema", () => {
+  it("decodes notation and encodes it canonically", () => {
+    const decoded = Schema.decodeUnknownSync(RangeSchema)("AQs+, TT+");
+    expect(rangeSize(decoded)).toBe(38);
+    expect(Schema.encodeSync(RangeSchema)(decoded)).toBe("TT+, AQs+");
+  });
+
+  it("fails to decode invalid notation", () => {
+    expect(Either.isLeft(Schema.decodeUnknownEither(RangeSchema)("AK+s"))).toBe(true);
+  });
+});
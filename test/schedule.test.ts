@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { Option } from "effect";
+import { Chips } from "../src/brand.js";
+import { advanceClock, validateSchedule } from "../src/schedule.js";
+import type { BlindClock, BlindSchedule } from "../src/schedule.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const blinds = (sb: number, bb: number) => ({ smallBlind: Chips(sb), bigBlind: Chips(bb) });
+
+const START: BlindClock = { level: 0, startHand: 0, startedAt: Option.none() };
+
+// ---------------------------------------------------------------------------
+// validateSchedule
+// ---------------------------------------------------------------------------
+
+describe("validateSchedule", () => {
+  it("accepts a well-formed schedule", () => {
+    const schedule: BlindSchedule = {
+      levels: [{ forcedBets: blinds(1, 2), hands: 10, duration: "10 minutes" }, { forcedBets: blinds(2, 4) }],
+    };
+    expect(Option.isNone(validateSchedule(schedule))).toBe(true);
+  });
+
+  it("rejects an empty schedule", () => {
+    expect(Option.isSome(validateSchedule({ levels: [] }))).toBe(true);
+  });
+
+  it("rejects a level without a big blind or with a bad length", () => {
+    expect(Option.isSome(validateSchedule({ levels: [{ forcedBets: blinds(0, 0) }] }))).toBe(true);
+    expect(Option.isSome(validateSchedule({ levels: [{ forcedBets: blinds(1, 2), hands: 0 }] }))).toBe(true);
+    expect(Option.isSome(validateSchedule({ levels: [{ forcedBets: blinds(1, 2), duration: 0 }] }))).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// advanceClock
+// ---------------------------------------------------------------------------
+
+describe("advanceClock", () => {
+  const byHands: BlindSchedule = {
+    levels: [
+      { forcedBets: blinds(1, 2), hands: 3 },
+      { forcedBets: blinds(2, 4), hands: 3 },
+      { forcedBets: blinds(5, 10) },
+    ],
+  };
+
+  const byTime: BlindSchedule = {
+    levels: [
+      { forcedBets: blinds(1, 2), duration: "10 minutes" },
+      { forcedBets: blinds(2, 4), duration: "10 minutes" },
+      { forcedBets: blinds(5, 10) },
+    ],
+  };
+
+  const MINUTE = 60_000;
+
+  it("starts the clock at the first hand", () => {
+    expect(advanceClock(byTime, START, 0, 5 * MINUTE)).toEqual({
+      level: 0,
+      startHand: 0,
+      startedAt: Option.some(5 * MINUTE),
+    });
+  });
+
+  it("moves up once a level's hands are dealt", () => {
+    expect(advanceClock(byHands, START, 2, 0).level).toBe(0);
+    const next = advanceClock(byHands, START, 3, 0);
+    expect(next).toMatchObject({ level: 1, startHand: 3 });
+    expect(advanceClock(byHands, next, 5, 0).level).toBe(1);
+    expect(advanceClock(byHands, next, 6, 0).level).toBe(2);
+  });
+
+  it("moves up once a level's time runs out, keeping the leftover time", () => {
+    const started = advanceClock(byTime, START, 0, 0);
+    expect(advanceClock(byTime, started, 4, 10 * MINUTE - 1).level).toBe(0);
+
+    const next = advanceClock(byTime, started, 4, 12 * MINUTE);
+    expect(next).toEqual({ level: 1, startHand: 4, startedAt: Option.some(10 * MINUTE) });
+  });
+
+  it("skips every level that ended during a long gap", () => {
+    const started = advanceClock(byTime, START, 0, 0);
+    expect(advanceClock(byTime, started, 1, 25 * MINUTE)).toMatchObject({
+      level: 2,
+      startedAt: Option.some(20 * MINUTE),
+    });
+  });
+
+  it("stays on the last level", () => {
+    const last: BlindClock = { level: 2, startHand: 0, startedAt: Option.some(0) };
+    expect(advanceClock(byHands, last, 1_000, 1_000 * MINUTE)).toEqual(last);
+  });
+});
@@ -4,13 +4,22 @@ import {
   createTable,
   sitDown,
   standUp,
+  sitOut,
+  sitIn,
+  setSitOutNextHand,
+  setSitOutNextBigBlind,
+  topUp,
+  rebuy,
+  addOn,
+  setRunItTimes,
   startNextHand,
   act,
   getActivePlayer,
 } from "../src/table.js";
 import type { TableConfig, TableState } from "../src/table.js";
-import { Chips, SeatIndex, chipsToNumber } from "../src/brand.js";
-import { Fold } from "../src/action.js";
+import { Chips, PlayerId, SeatIndex, chipsToNumber } from "../src/brand.js";
+import { AllIn, Fold, Raise } from "../src/action.js";
+import { getLegalActions } from "../src/hand.js";
 import type { ForcedBets } from "../src/hand.js";
 
 // ---------------------------------------------------------------------------
@@ -86,6 +95,14 @@ describe("createTable", () => {
     const result = createTable({ maxSeats: 11, forcedBets: DEFAULT_BLINDS });
     expect(Either.isLeft(result)).toBe(true);
   });
+
+  it("returns Either.left for a straddle no larger than the big blind", () => {
+    const result = createTable({
+      ...DEFAULT_CONFIG,
+      straddle: { position: "UTG", amount: Chips(2) },
+    });
+    expect(Either.isLeft(result)).toBe(true);
+  });
 });
 
 // Basic sitDown/standUp and button rotation are covered by table.properties.ts.
@@ -103,6 +120,91 @@ describe("sitDown — error cases", () => {
       expect(result.left._tag).toBe("SeatOccupied");
     }
   });
+
+  it("returns InvalidBuyIn for an empty stack", () => {
+    const result = sitDown(createTableOrThrow(DEFAULT_CONFIG), SeatIndex(0), Chips(0));
+    expect(Either.isLeft(result) && result.left._tag).toBe("InvalidBuyIn");
+  });
+});
+
+describe("sitDown — buy-in limits", () => {
+  const LIMITS_CONFIG: TableConfig = {
+    ...DEFAULT_CONFIG,
+    minBuyIn: { bigBlinds: 20 },
+    maxBuyIn: Chips(200),
+    ratholeHands: 3,
+  };
+
+  const buyIn = (table: TableState, chips: number, seat = 0, id?: string) =>
+    sitDown(table, SeatIndex(seat), Chips(chips), id === undefined ? undefined : PlayerId(id));
+
+  it("accepts stacks within the limits", () => {
+    const table = createTableOrThrow(LIMITS_CONFIG);
+    expect(Either.isRight(buyIn(table, 40))).toBe(true);
+    expect(Either.isRight(buyIn(table, 200))).toBe(true);
+  });
+
+  it("rejects stacks outside the limits, reading big-blind limits in chips", () => {
+    const table = createTableOrThrow(LIMITS_CONFIG);
+    const short = buyIn(table, 39);
+    expect(Either.isLeft(short) && short.left._tag).toBe("InvalidBuyIn");
+    const deep = buyIn(table, 201);
+    expect(Either.isLeft(deep) && deep.left._tag).toBe("InvalidBuyIn");
+  });
+
+  it("rejects limits that cannot be met", () => {
+    expect(Either.isLeft(createTable({ ...DEFAULT_CONFIG, minBuyIn: { bigBlinds: 0 } }))).toBe(true);
+    expect(Either.isLeft(createTable({ ...DEFAULT_CONFIG, ratholeHands: 0 }))).toBe(true);
+  });
+
+  describe("ratholing", () => {
+    function leaveWith(chips: number): TableState {
+      let table = createTableOrThrow(LIMITS_CONFIG);
+      table = sitDownOrThrow(sitDownOrThrow(table, 1, 100), 2, 100);
+      table = Either.getOrThrow(buyIn(table, chips, 0, "alice"));
+      return Either.getOrThrow(standUp(table, SeatIndex(0)));
+    }
+
+    function playHands(table: TableState, count: number): TableState {
+      let current = table;
+      for (let i = 0; i < count; i++) {
+        current = Effect.runSync(startNextHand(current));
+        while (Option.isSome(current.currentHand)) {
+          current = actOrThrow(current, Option.getOrThrow(getActivePlayer(current)), Fold);
+        }
+      }
+      return current;
+    }
+
+    it("makes a player who just left come back with at least their old stack", () => {
+      const table = leaveWith(150);
+      const short = buyIn(table, 100, 3, "alice");
+      expect(Either.isLeft(short) && short.left._tag).toBe("InvalidBuyIn");
+      expect(Either.isRight(buyIn(table, 150, 3, "alice"))).toBe(true);
+      // Other players are unaffected
+      expect(Either.isRight(buyIn(table, 100, 3, "bob"))).toBe(true);
+    });
+
+    it("lets a player return above the maximum with the stack they left with", () => {
+      let table = createTableOrThrow(LIMITS_CONFIG);
+      table = Either.getOrThrow(buyIn(table, 200, 0, "alice"));
+      // Won chips at the table
+      table = {
+        ...table,
+        seats: HashMap.modify(table.seats, SeatIndex(0), (p) => ({ ...p, chips: Chips(300) })),
+      };
+      table = Either.getOrThrow(standUp(table, SeatIndex(0)));
+      expect(Either.isRight(buyIn(table, 300, 0, "alice"))).toBe(true);
+      expect(Either.isLeft(buyIn(table, 301, 0, "alice"))).toBe(true);
+    });
+
+    it("lifts the rule once enough hands have been played", () => {
+      let table = playHands(leaveWith(150), 2);
+      expect(Either.isLeft(buyIn(table, 100, 3, "alice"))).toBe(true);
+      table = playHands(table, 1);
+      expect(Either.isRight(buyIn(table, 100, 3, "alice"))).toBe(true);
+    });
+  });
 });
 
 describe("standUp — error cases", () => {
@@ -150,6 +252,578 @@ describe("startNextHand — error cases", () => {
   });
 });
 
+describe("startNextHand — all-in on forced bets", () => {
+  it("settles a hand that the antes finish before anyone acts", () => {
+    let table = createTableOrThrow({
+      maxSeats: 6,
+      forcedBets: { smallBlind: Chips(1), bigBlind: Chips(2), ante: Chips(50) },
+    });
+    table = sitDownOrThrow(table, 0, 40);
+    table = sitDownOrThrow(table, 1, 30);
+
+    table = Effect.runSync(startNextHand(table));
+
+    expect(Option.isNone(table.currentHand)).toBe(true);
+    expect(table.events.some((e) => e._tag === "HandEnded")).toBe(true);
+    expect(totalChips(table)).toBe(70);
+    expect(table.handCount).toBe(1);
+
+    // The table is free for the next hand rather than stuck on the finished one
+    const next = Effect.runSync(Effect.either(startNextHand(table)));
+    if (Either.isLeft(next)) {
+      expect(next.left._tag).toBe("NotEnoughPlayers");
+    }
+  });
+});
+
+describe("startNextHand — straddle", () => {
+  function seatFour(config: TableConfig): TableState {
+    let table = createTableOrThrow(config);
+    for (const seat of [0, 1, 2, 3]) {
+      table = sitDownOrThrow(table, seat, 100);
+    }
+    return table;
+  }
+
+  it("posts the configured straddle only when the hand opts in", () => {
+    const table = seatFour({
+      ...DEFAULT_CONFIG,
+      straddle: { position: "UTG", amount: Chips(4) },
+    });
+
+    const plain = Effect.runSync(startNextHand(table));
+    const plainEvents = Option.getOrThrow(plain.currentHand).events;
+    expect(plainEvents.some((e) => e._tag === "StraddlePosted")).toBe(false);
+
+    const straddled = Effect.runSync(startNextHand(table, { straddle: true }));
+    const events = Option.getOrThrow(straddled.currentHand).events;
+    expect(events.some((e) => e._tag === "StraddlePosted")).toBe(true);
+  });
+
+  it("fails with InvalidConfig when the table has no straddle configured", () => {
+    const table = seatFour(DEFAULT_CONFIG);
+    const result = Effect.runSync(Effect.either(startNextHand(table, { straddle: true })));
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("InvalidConfig");
+    }
+  });
+});
+
+describe("startNextHand — bomb pot", () => {
+  function seatThree(): TableState {
+    let table = createTableOrThrow(DEFAULT_CONFIG);
+    for (const seat of [0, 1, 2]) {
+      table = sitDownOrThrow(table, seat, 100);
+    }
+    return table;
+  }
+
+  it("starts the hand on the flop with the antes in the pot", () => {
+    const table = Effect.runSync(startNextHand(seatThree(), { bombPot: { ante: Chips(10) } }));
+    const handState = Option.getOrThrow(table.currentHand);
+
+    expect(handState.phase).toBe("Flop");
+    expect(handState.events.some((e) => e._tag === "BombPotPosted")).toBe(true);
+    expect(handState.events.find((e) => e._tag === "HandStarted")).not.toHaveProperty("bigBlind");
+    expect(Option.isSome(getActivePlayer(table))).toBe(true);
+  });
+
+  it("rejects a non-positive ante", () => {
+    const result = Effect.runSync(
+      Effect.either(startNextHand(seatThree(), { bombPot: { ante: Chips(0) } })),
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("InvalidConfig");
+    }
+  });
+});
+
+describe("startNextHand — double board", () => {
+  it("deals two boards every hand when the table is configured for it", () => {
+    let table = createTableOrThrow({ ...DEFAULT_CONFIG, doubleBoard: true });
+    table = sitDownOrThrow(table, 0, 100);
+    table = sitDownOrThrow(table, 1, 100);
+    table = Effect.runSync(startNextHand(table));
+    expect(Option.getOrThrow(table.currentHand).boards).toEqual([[], []]);
+
+    table = actOrThrow(table, SeatIndex(0), AllIn);
+    table = actOrThrow(table, SeatIndex(1), AllIn);
+
+    const boards = table.events.flatMap((e) => (e._tag === "CommunityCardsDealt" ? [e.board] : []));
+    expect(boards).toEqual([1, 2, 1, 2, 1, 2]);
+    expect(totalChips(table)).toBe(200);
+  });
+
+  it("rejects a table too big for the deck to deal two boards", () => {
+    const result = createTable({ ...DEFAULT_CONFIG, maxSeats: 10, variant: "Omaha", doubleBoard: true });
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe("InvalidConfig");
+    }
+
+    expect(Either.isRight(createTable({ ...DEFAULT_CONFIG, maxSeats: 9, variant: "Omaha", doubleBoard: true }))).toBe(true);
+    expect(Either.isRight(createTable({ ...DEFAULT_CONFIG, maxSeats: 10, variant: "Omaha" }))).toBe(true);
+  });
+});
+
+describe("startNextHand — fixed-limit raise cap", () => {
+  it("stops raising once the table's cap is reached", () => {
+    let table = createTableOrThrow({ ...DEFAULT_CONFIG, bettingStructure: "FixedLimit", raiseCap: 1 });
+    for (const seat of [0, 1, 2]) {
+      table = sitDownOrThrow(table, seat, 100);
+    }
+    table = Effect.runSync(startNextHand(table));
+
+    const raiser = Option.getOrThrow(getActivePlayer(table));
+    const raised = act(table, raiser, Raise({ amount: Chips(4) }));
+    expect(Either.isRight(raised)).toBe(true);
+    if (Either.isLeft(raised)) return;
+
+    const legal = Option.getOrThrow(getLegalActions(Option.getOrThrow(raised.right.currentHand)));
+    expect(Option.isNone(legal.minRaise)).toBe(true);
+    expect(Option.isSome(legal.callAmount)).toBe(true);
+  });
+
+  it("rejects a raise cap that is not a positive integer", () => {
+    for (const raiseCap of [0, 1.5]) {
+      const result = createTable({ ...DEFAULT_CONFIG, raiseCap });
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("InvalidConfig");
+      }
+    }
+  });
+});
+
+describe("rake", () => {
+  it("adds each hand's rake to the table total", () => {
+    let table = createTableOrThrow({ ...DEFAULT_CONFIG, rake: { percentage: 10, caps: [{ players: 2, cap: Chips(5) }] } });
+    table = sitDownOrThrow(table, 0, 100);
+    table = sitDownOrThrow(table, 1, 100);
+    table = Effect.runSync(startNextHand(table));
+    table = actOrThrow(table, SeatIndex(0), AllIn);
+    table = actOrThrow(table, SeatIndex(1), AllIn);
+
+    expect(chipsToNumber(table.totalRake)).toBe(5);
+    expect(totalChips(table) + chipsToNumber(table.totalRake)).toBe(200);
+    expect(table.events.some((e) => e._tag === "RakeTaken")).toBe(true);
+  });
+
+  it("rejects a percentage outside 0-100 and a bad cap", () => {
+    const badPercent = createTable({ ...DEFAULT_CONFIG, rake: { percentage: 120 } });
+    expect(Either.isLeft(badPercent)).toBe(true);
+
+    const badCap = createTable({ ...DEFAULT_CONFIG, rake: { percentage: 5, caps: [{ players: 1, cap: Chips(3) }] } });
+    expect(Either.isLeft(badCap)).toBe(true);
+  });
+});
+
+describe("startNextHand — dead button and missed blinds", () => {
+  function foldOut(table: TableState): TableState {
+    let current = table;
+    while (Option.isSome(current.currentHand)) {
+      current = actOrThrow(current, Option.getOrThrow(getActivePlayer(current)), Fold);
+    }
+    return current;
+  }
+
+  function standUpOrThrow(table: TableState, seat: number): TableState {
+    const result = standUp(table, SeatIndex(seat));
+    if (Either.isLeft(result)) throw new Error(result.left._tag);
+    return result.right;
+  }
+
+  function seatFour(): TableState {
+    let table = createTableOrThrow(DEFAULT_CONFIG);
+    for (const seat of [0, 1, 2, 3]) {
+      table = sitDownOrThrow(table, seat, 100);
+    }
+    // Hand 1: button 0, small blind 1, big blind 2
+    return foldOut(Effect.runSync(startNextHand(table)));
+  }
+
+  it("kills the small blind and then the button when the big blind leaves", () => {
+    let table = standUpOrThrow(seatFour(), 2);
+
+    table = Effect.runSync(startNextHand(table));
+    const hand2 = Option.getOrThrow(table.currentHand);
+    expect(hand2.button).toBe(SeatIndex(1));
+    expect(Option.isNone(hand2.smallBlindSeat)).toBe(true);
+    expect(hand2.bigBlindSeat).toBe(SeatIndex(3));
+    const blinds = hand2.events.find((e) => e._tag === "BlindsPosted");
+    expect(blinds?._tag === "BlindsPosted" && blinds.smallBlind).toBeUndefined();
+    expect(HashMap.get(table.missedBlinds, SeatIndex(2))).toEqual(
+      Option.some({ smallBlind: true, bigBlind: false }),
+    );
+    table = foldOut(table);
+
+    table = Effect.runSync(startNextHand(table));
+    const hand3 = Option.getOrThrow(table.currentHand);
+    expect(hand3.button).toBe(SeatIndex(2));
+    expect(Option.getOrThrow(hand3.smallBlindSeat)).toBe(SeatIndex(3));
+    expect(hand3.bigBlindSeat).toBe(SeatIndex(0));
+    expect(Option.getOrThrow(getActivePlayer(table))).toBe(SeatIndex(1));
+  });
+
+  it("makes a returning player post a dead small blind and a live big blind", () => {
+    let table = standUpOrThrow(seatFour(), 3);
+
+    // The big blind skips the empty seat 3
+    table = foldOut(Effect.runSync(startNextHand(table)));
+    expect(HashMap.get(table.missedBlinds, SeatIndex(3))).toEqual(
+      Option.some({ smallBlind: true, bigBlind: true }),
+    );
+
+    table = sitDownOrThrow(table, 3, 100);
+    table = Effect.runSync(startNextHand(table));
+    const hand = Option.getOrThrow(table.currentHand);
+    const posted = hand.events.find((e) => e._tag === "MissedBlindsPosted");
+    expect(posted).toMatchObject({ seat: SeatIndex(3), dead: Chips(1), live: Chips(2) });
+    expect(Option.isNone(HashMap.get(table.missedBlinds, SeatIndex(3)))).toBe(true);
+
+    const returning = hand.players.find((p) => p.seatIndex === SeatIndex(3));
+    expect(returning).toMatchObject({ chips: Chips(97), currentBet: Chips(2) });
+  });
+});
+
+describe("sitOut / sitIn", () => {
+  function foldOut(table: TableState): TableState {
+    let current = table;
+    while (Option.isSome(current.currentHand)) {
+      current = actOrThrow(current, Option.getOrThrow(getActivePlayer(current)), Fold);
+    }
+    return current;
+  }
+
+  function orThrow(result: Either.Either<TableState, { readonly _tag: string }>): TableState {
+    if (Either.isLeft(result)) throw new Error(result.left._tag);
+    return result.right;
+  }
+
+  function seatFour(config: TableConfig = DEFAULT_CONFIG): TableState {
+    let table = createTableOrThrow(config);
+    for (const seat of [0, 1, 2, 3]) {
+      table = sitDownOrThrow(table, seat, 100);
+    }
+    // Hand 1: button 0, small blind 1, big blind 2
+    return foldOut(Effect.runSync(startNextHand(table)));
+  }
+
+  const dealtIn = (table: TableState) =>
+    Option.getOrThrow(table.currentHand).players.map((p) => p.seatIndex);
+
+  it("skips a sitting-out player who keeps their seat and chips", () => {
+    let table = orThrow(sitOut(seatFour(), SeatIndex(3)));
+    expect(table.events.at(-1)).toMatchObject({ _tag: "PlayerSatOut", seat: SeatIndex(3) });
+
+    table = Effect.runSync(startNextHand(table));
+    expect(dealtIn(table)).toEqual([SeatIndex(0), SeatIndex(1), SeatIndex(2)]);
+    expect(chipsToNumber(Option.getOrThrow(HashMap.get(table.seats, SeatIndex(3))).chips)).toBe(100);
+    expect(HashMap.get(table.missedBlinds, SeatIndex(3))).toEqual(
+      Option.some({ smallBlind: true, bigBlind: true }),
+    );
+  });
+
+  it("makes a player who sits back in post the blinds they missed", () => {
+    let table = orThrow(sitOut(seatFour(), SeatIndex(3)));
+    table = foldOut(Effect.runSync(startNextHand(table)));
+
+    table = orThrow(sitIn(table, SeatIndex(3)));
+    expect(table.events.at(-1)).toMatchObject({ _tag: "PlayerSatIn", seat: SeatIndex(3) });
+    table = Effect.runSync(startNextHand(table));
+    expect(dealtIn(table)).toContain(SeatIndex(3));
+    const hand = Option.getOrThrow(table.currentHand);
+    const posted = hand.events.find((e) => e._tag === "MissedBlindsPosted");
+    expect(posted).toMatchObject({ seat: SeatIndex(3), dead: Chips(1), live: Chips(2) });
+  });
+
+  it("refuses to sit out a player in the current hand", () => {
+    const table = Effect.runSync(startNextHand(seatFour()));
+    const result = sitOut(table, SeatIndex(3));
+    expect(Either.isLeft(result) && result.left._tag).toBe("HandInProgress");
+  });
+
+  it("sits a player out once the current hand ends", () => {
+    let table = Effect.runSync(startNextHand(seatFour()));
+    table = orThrow(setSitOutNextHand(table, SeatIndex(3), true));
+    expect(dealtIn(table)).toContain(SeatIndex(3));
+
+    table = Effect.runSync(startNextHand(foldOut(table)));
+    expect(dealtIn(table)).not.toContain(SeatIndex(3));
+    expect(HashMap.has(table.sittingOut, SeatIndex(3))).toBe(true);
+  });
+
+  it("sits a player out when the big blind reaches them", () => {
+    let table = orThrow(setSitOutNextBigBlind(seatFour(), SeatIndex(0), true));
+
+    // Hand 2: big blind 3 — seat 0 still plays
+    table = Effect.runSync(startNextHand(table));
+    expect(dealtIn(table)).toContain(SeatIndex(0));
+    table = foldOut(table);
+
+    // Hand 3: the big blind would be seat 0, so it passes to seat 1
+    table = Effect.runSync(startNextHand(table));
+    expect(dealtIn(table)).not.toContain(SeatIndex(0));
+    expect(Option.getOrThrow(table.currentHand).bigBlindSeat).toBe(SeatIndex(1));
+    expect(HashMap.has(table.sittingOut, SeatIndex(0))).toBe(true);
+  });
+
+  it("cancels a pending sit-out", () => {
+    let table = orThrow(setSitOutNextHand(seatFour(), SeatIndex(3), true));
+    table = orThrow(setSitOutNextHand(table, SeatIndex(3), false));
+    table = Effect.runSync(startNextHand(table));
+    expect(dealtIn(table)).toContain(SeatIndex(3));
+  });
+
+  it("stands a player up after maxSitOutOrbits orbits", () => {
+    let table = orThrow(sitOut(seatFour({ ...DEFAULT_CONFIG, maxSitOutOrbits: 2 }), SeatIndex(3)));
+
+    // Hand 2 passes seat 3 once; the big blind gets back round by hand 5
+    for (let i = 0; i < 3; i++) {
+      table = foldOut(Effect.runSync(startNextHand(table)));
+    }
+    expect(HashMap.get(table.sittingOut, SeatIndex(3))).toEqual(Option.some(1));
+
+    table = Effect.runSync(startNextHand(table));
+    expect(HashMap.has(table.seats, SeatIndex(3))).toBe(false);
+    expect(HashMap.has(table.sittingOut, SeatIndex(3))).toBe(false);
+    expect(table.events.some((e) => e._tag === "PlayerStoodUp" && e.seat === SeatIndex(3))).toBe(true);
+  });
+
+  it("rejects a non-positive maxSitOutOrbits", () => {
+    const result = createTable({ ...DEFAULT_CONFIG, maxSitOutOrbits: 0 });
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+describe("topUp / rebuy / addOn", () => {
+  const BUY_IN_CONFIG: TableConfig = {
+    ...DEFAULT_CONFIG,
+    minBuyIn: Chips(40),
+    maxBuyIn: Chips(200),
+  };
+
+  function headsUp(config: TableConfig): TableState {
+    let table = createTableOrThrow(config);
+    table = sitDownOrThrow(table, 0, 100);
+    return sitDownOrThrow(table, 1, 100);
+  }
+
+  function playUntilBust(table: TableState): TableState {
+    let current = table;
+    for (let i = 0; i < 50; i++) {
+      current = Effect.runSync(startNextHand(current));
+      while (Option.isSome(current.currentHand)) {
+        current = actOrThrow(current, Option.getOrThrow(getActivePlayer(current)), AllIn);
+      }
+      const stacks = Array.from(HashMap.values(current.seats), (p) => chipsToNumber(p.chips));
+      if (stacks.length < 2 || stacks.includes(0)) return current;
+    }
+    throw new Error("nobody busted");
+  }
+
+  it("adds chips between hands", () => {
+    const result = topUp(headsUp(BUY_IN_CONFIG), SeatIndex(0), Chips(50));
+    expect(Either.isRight(result)).toBe(true);
+    if (Either.isLeft(result)) return;
+    expect(chipsToNumber(Option.getOrThrow(HashMap.get(result.right.seats, SeatIndex(0))).chips)).toBe(150);
+    expect(result.right.events.at(-1)).toMatchObject({
+      _tag: "ChipsAdded",
+      seat: SeatIndex(0),
+      amount: Chips(50),
+      chips: Chips(150),
+    });
+  });
+
+  it("rejects a top-up past the maximum buy-in", () => {
+    const result = topUp(headsUp(BUY_IN_CONFIG), SeatIndex(0), Chips(101));
+    expect(Either.isLeft(result) && result.left._tag).toBe("InvalidBuyIn");
+  });
+
+  it("rejects a non-positive top-up", () => {
+    const result = topUp(headsUp(BUY_IN_CONFIG), SeatIndex(0), Chips(0));
+    expect(Either.isLeft(result) && result.left._tag).toBe("InvalidBuyIn");
+  });
+
+  it("queues a mid-hand top-up until the hand ends", () => {
+    let table = Effect.runSync(startNextHand(headsUp(BUY_IN_CONFIG)));
+    const result = topUp(table, SeatIndex(1), Chips(100));
+    if (Either.isLeft(result)) throw new Error(result.left._tag);
+    table = result.right;
+    expect(Option.getOrThrow(HashMap.get(table.pendingChips, SeatIndex(1)))).toBe(Chips(100));
+
+    // Counted against the maximum while pending
+    expect(Either.isLeft(topUp(table, SeatIndex(1), Chips(1)))).toBe(true);
+
+    table = actOrThrow(table, Option.getOrThrow(getActivePlayer(table)), Fold);
+    expect(HashMap.size(table.pendingChips)).toBe(0);
+    const added = table.events.find((e) => e._tag === "ChipsAdded");
+    expect(added).toMatchObject({ seat: SeatIndex(1), amount: Chips(100) });
+    const seat1 = Option.getOrThrow(HashMap.get(table.seats, SeatIndex(1)));
+    expect(chipsToNumber(seat1.chips)).toBe(added?._tag === "ChipsAdded" ? chipsToNumber(added.chips) : -1);
+  });
+
+  it("removes a busted player unless the table waits for rebuys", () => {
+    const table = playUntilBust(headsUp(BUY_IN_CONFIG));
+    expect(HashMap.size(table.seats)).toBe(1);
+  });
+
+  it("keeps a busted player seated until they rebuy", () => {
+    let table = playUntilBust(headsUp({ ...BUY_IN_CONFIG, waitForRebuy: true }));
+    expect(HashMap.size(table.seats)).toBe(2);
+    const busted = Array.from(HashMap.values(table.seats)).find((p) => chipsToNumber(p.chips) === 0);
+    expect(busted).toBeDefined();
+    if (busted === undefined) return;
+    expect(Either.isLeft(Effect.runSync(Effect.either(startNextHand(table))))).toBe(true);
+
+    const short = rebuy(table, busted.seatIndex, Chips(39));
+    expect(Either.isLeft(short) && short.left._tag).toBe("InvalidBuyIn");
+
+    const result = rebuy(table, busted.seatIndex, Chips(40));
+    if (Either.isLeft(result)) throw new Error(result.left._tag);
+    table = Effect.runSync(startNextHand(result.right));
+    expect(Option.getOrThrow(table.currentHand).players).toHaveLength(2);
+  });
+
+  it("only lets a busted player rebuy", () => {
+    const result = rebuy(headsUp(BUY_IN_CONFIG), SeatIndex(0), Chips(50));
+    expect(Either.isLeft(result) && result.left._tag).toBe("InvalidBuyIn");
+  });
+
+  it("adds the add-on once, past the maximum buy-in", () => {
+    const table = headsUp({ ...BUY_IN_CONFIG, addOn: Chips(150) });
+    const result = addOn(table, SeatIndex(0));
+    if (Either.isLeft(result)) throw new Error(result.left._tag);
+
+    const seat0 = Option.getOrThrow(HashMap.get(result.right.seats, SeatIndex(0)));
+    expect(seat0.chips).toBe(Chips(250));
+    expect(result.right.events.at(-1)).toMatchObject({ _tag: "ChipsAdded", seat: SeatIndex(0), amount: Chips(150) });
+
+    const again = addOn(result.right, SeatIndex(0));
+    expect(Either.isLeft(again) && again.left._tag).toBe("InvalidBuyIn");
+  });
+
+  it("queues a mid-hand add-on until the hand ends", () => {
+    let table = Effect.runSync(startNextHand(headsUp({ ...BUY_IN_CONFIG, addOn: Chips(150) })));
+    const result = addOn(table, SeatIndex(1));
+    if (Either.isLeft(result)) throw new Error(result.left._tag);
+    table = result.right;
+    expect(Option.getOrThrow(HashMap.get(table.pendingChips, SeatIndex(1)))).toBe(Chips(150));
+
+    table = actOrThrow(table, Option.getOrThrow(getActivePlayer(table)), Fold);
+    expect(HashMap.size(table.pendingChips)).toBe(0);
+    expect(table.events.some((e) => e._tag === "ChipsAdded" && e.amount === Chips(150))).toBe(true);
+  });
+
+  it("rejects an add-on the table does not offer", () => {
+    const result = addOn(headsUp(BUY_IN_CONFIG), SeatIndex(0));
+    expect(Either.isLeft(result) && result.left._tag).toBe("InvalidBuyIn");
+    expect(Either.isLeft(createTable({ ...DEFAULT_CONFIG, addOn: Chips(0) }))).toBe(true);
+  });
+
+  it("rejects a minimum buy-in above the maximum", () => {
+    const result = createTable({ ...DEFAULT_CONFIG, minBuyIn: Chips(300), maxBuyIn: Chips(200) });
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+describe("startNextHand — blind schedule", () => {
+  const SCHEDULE_CONFIG: TableConfig = {
+    ...DEFAULT_CONFIG,
+    blindSchedule: {
+      levels: [
+        { forcedBets: { smallBlind: Chips(5), bigBlind: Chips(10) }, hands: 2 },
+        { forcedBets: { smallBlind: Chips(10), bigBlind: Chips(20), ante: Chips(2) } },
+      ],
+    },
+  };
+
+  function playOne(table: TableState): TableState {
+    let current = Effect.runSync(startNextHand(table));
+    while (Option.isSome(current.currentHand)) {
+      current = actOrThrow(current, Option.getOrThrow(getActivePlayer(current)), Fold);
+    }
+    return current;
+  }
+
+  it("uses the first level's blinds from the start", () => {
+    const table = createTableOrThrow(SCHEDULE_CONFIG);
+    expect(table.config.forcedBets.bigBlind).toBe(Chips(10));
+  });
+
+  it("moves to the next level at the next hand", () => {
+    let table = sitDownOrThrow(sitDownOrThrow(createTableOrThrow(SCHEDULE_CONFIG), 0, 500), 1, 500);
+    table = playOne(playOne(table));
+    expect(table.events.some((e) => e._tag === "BlindLevelChanged")).toBe(false);
+
+    table = Effect.runSync(startNextHand(table));
+    const changed = table.events.find((e) => e._tag === "BlindLevelChanged");
+    expect(changed).toMatchObject({ level: 2, forcedBets: { bigBlind: Chips(20) } });
+    expect(table.config.forcedBets.bigBlind).toBe(Chips(20));
+
+    const blinds = Option.getOrThrow(table.currentHand).events.find((e) => e._tag === "BlindsPosted");
+    expect(blinds?._tag === "BlindsPosted" && blinds.bigBlind.amount).toBe(Chips(20));
+  });
+
+  it("rejects an invalid schedule", () => {
+    const result = createTable({ ...DEFAULT_CONFIG, blindSchedule: { levels: [] } });
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+describe("setRunItTimes", () => {
+  function headsUpAllIn(config: TableConfig, times: readonly [number, number]): TableState {
+    let table = createTableOrThrow(config);
+    table = sitDownOrThrow(table, 0, 100);
+    table = sitDownOrThrow(table, 1, 100);
+    for (const [seat, t] of [[0, times[0]], [1, times[1]]] as const) {
+      const result = setRunItTimes(table, SeatIndex(seat), t);
+      if (Either.isLeft(result)) throw new Error(result.left._tag);
+      table = result.right;
+    }
+    table = Effect.runSync(startNextHand(table));
+    table = actOrThrow(table, SeatIndex(0), AllIn);
+    return actOrThrow(table, SeatIndex(1), AllIn);
+  }
+
+  it("runs the board the fewest times anyone agreed to, capped by maxRunouts", () => {
+    const table = headsUpAllIn({ ...DEFAULT_CONFIG, maxRunouts: 3 }, [3, 2]);
+
+    const agreed = table.events.find((e) => e._tag === "RunItAgreed");
+    expect(agreed?._tag === "RunItAgreed" && agreed.times).toBe(2);
+    expect(table.events.filter((e) => e._tag === "RunoutDealt")).toHaveLength(2);
+    expect(totalChips(table)).toBe(200);
+  });
+
+  it("runs it once when the table does not allow multiple runouts", () => {
+    const table = headsUpAllIn(DEFAULT_CONFIG, [2, 2]);
+
+    expect(table.events.some((e) => e._tag === "RunItAgreed")).toBe(false);
+    expect(totalChips(table)).toBe(200);
+  });
+
+  it("rejects an empty seat and a non-positive count", () => {
+    let table = createTableOrThrow(DEFAULT_CONFIG);
+    const empty = setRunItTimes(table, SeatIndex(3), 2);
+    expect(Either.isLeft(empty) && empty.left._tag).toBe("SeatEmpty");
+
+    table = sitDownOrThrow(table, 0, 100);
+    const zero = setRunItTimes(table, SeatIndex(0), 0);
+    expect(Either.isLeft(zero) && zero.left._tag).toBe("InvalidConfig");
+  });
+
+  it("rejects a maxRunouts that is not a positive integer", () => {
+    for (const maxRunouts of [0, 2.5]) {
+      const result = createTable({ ...DEFAULT_CONFIG, maxRunouts });
+      expect(Either.isLeft(result) && result.left._tag).toBe("InvalidConfig");
+    }
+  });
+});
+
 describe("Full hand through table", () => {
   it("sitDown 2 players, startNextHand, fold, hand completes, chips transferred", () => {
     let table = createTableOrThrow(DEFAULT_CONFIG);
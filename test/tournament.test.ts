@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { Effect, Either, HashMap, Option } from "effect";
+import { Chips, PlayerId, chipsToNumber } from "../src/brand.js";
+import { AllIn, Call, Check, Fold } from "../src/action.js";
+import { fromSync, passiveStrategy } from "../src/loop.js";
+import type { TableConfig } from "../src/table.js";
+import {
+  createTournament,
+  isFinished,
+  playRound,
+  playTournament,
+  remainingPlayers,
+} from "../src/tournament.js";
+import type { TournamentConfig, TournamentState } from "../src/tournament.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const TABLE: TableConfig = {
+  maxSeats: 9,
+  forcedBets: { smallBlind: Chips(10), bigBlind: Chips(20) },
+};
+
+function entrants(count: number): PlayerId[] {
+  return Array.from({ length: count }, (_, i) => PlayerId(`p${i + 1}`));
+}
+
+function createOrThrow(config: TournamentConfig): TournamentState {
+  const result = createTournament(config);
+  if (Either.isLeft(result)) throw new Error(result.left.reason);
+  return result.right;
+}
+
+function tableSizes(state: TournamentState): number[] {
+  return Array.from(HashMap.values(state.tables), (t) => HashMap.size(t.seats)).sort((a, b) => a - b);
+}
+
+function chipsInPlay(state: TournamentState): number {
+  let total = 0;
+  for (const chips of HashMap.values(remainingPlayers(state))) total += chipsToNumber(chips);
+  return total;
+}
+
+// Shoves whenever it can, so players bust quickly
+const shove = fromSync((ctx) => {
+  if (ctx.legalActions.canAllIn) return AllIn;
+  if (ctx.legalActions.canCheck) return Check;
+  if (Option.isSome(ctx.legalActions.callAmount)) return Call;
+  return Fold;
+});
+
+// ---------------------------------------------------------------------------
+// createTournament
+// ---------------------------------------------------------------------------
+
+describe("createTournament", () => {
+  it("spreads entrants evenly over as few tables as hold them", () => {
+    const state = createOrThrow({ entrants: entrants(20), startingStack: Chips(1000), table: TABLE });
+    expect(HashMap.size(state.tables)).toBe(3);
+    expect(tableSizes(state)).toEqual([6, 7, 7]);
+    expect(HashMap.size(remainingPlayers(state))).toBe(20);
+  });
+
+  it("rejects duplicate entrants", () => {
+    const result = createTournament({
+      entrants: [PlayerId("a"), PlayerId("a")],
+      startingStack: Chips(1000),
+      table: TABLE,
+    });
+    expect(Either.isLeft(result)).toBe(true);
+  });
+
+  it("rejects two-seat tables, which would leave a lone player in an odd field", () => {
+    for (const count of [3, 5]) {
+      const result = createTournament({
+        entrants: entrants(count),
+        startingStack: Chips(1000),
+        table: { ...TABLE, maxSeats: 2 },
+      });
+      expect(Either.isLeft(result)).toBe(true);
+    }
+  });
+
+  it("never deals a one-player table with three-seat tables", () => {
+    let state = createOrThrow({ entrants: entrants(7), startingStack: Chips(200), table: { ...TABLE, maxSeats: 3 } });
+    expect(tableSizes(state)).toEqual([2, 2, 3]);
+    while (!isFinished(state)) {
+      state = Effect.runSync(playRound(shove)(state));
+      expect(tableSizes(state).every((size) => size >= 2) || HashMap.size(state.tables) === 1).toBe(true);
+    }
+  });
+
+  it("rejects tables with buy-in limits", () => {
+    const result = createTournament({
+      entrants: entrants(4),
+      startingStack: Chips(1000),
+      table: { ...TABLE, maxBuyIn: Chips(2000) },
+    });
+    expect(Either.isLeft(result)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// playRound
+// ---------------------------------------------------------------------------
+
+describe("playRound", () => {
+  it("plays a hand at every table and keeps chips in play", () => {
+    const before = createOrThrow({ entrants: entrants(20), startingStack: Chips(1000), table: TABLE });
+    const after = Effect.runSync(playRound(passiveStrategy)(before));
+    expect(after.rounds).toBe(1);
+    for (const table of HashMap.values(after.tables)) {
+      expect(table.handCount).toBe(1);
+    }
+    expect(chipsInPlay(after)).toBe(chipsInPlay(before));
+  });
+
+  it("keeps table sizes within one of each other as players bust", () => {
+    let state = createOrThrow({ entrants: entrants(30), startingStack: Chips(200), table: TABLE });
+    while (!isFinished(state) && state.rounds < 200) {
+      state = Effect.runSync(playRound(shove)(state));
+      const sizes = tableSizes(state);
+      expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(1);
+      expect(HashMap.size(state.tables)).toBe(Math.max(1, Math.ceil(HashMap.size(remainingPlayers(state)) / 9)));
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// playTournament
+// ---------------------------------------------------------------------------
+
+describe("playTournament", () => {
+  it("plays down to a winner and records every finishing position", () => {
+    const start = createOrThrow({ entrants: entrants(20), startingStack: Chips(200), table: TABLE });
+    const state = Effect.runSync(playTournament(shove)(start));
+
+    expect(isFinished(state)).toBe(true);
+    expect(state.finishes.map((f) => f.position).sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 20 }, (_, i) => i + 1),
+    );
+    expect(new Set(state.finishes.map((f) => f.player)).size).toBe(20);
+
+    const winner = state.finishes.find((f) => f.position === 1);
+    expect(winner).toBeDefined();
+    if (winner === undefined) return;
+    expect(state.finishes.at(-1)).toEqual(winner);
+    expect(Option.getOrThrow(HashMap.get(remainingPlayers(state), winner.player))).toBe(Chips(4000));
+
+    expect(state.events.some((e) => e._tag === "TableBroken")).toBe(true);
+    expect(state.events.filter((e) => e._tag === "FinalTableFormed")).toHaveLength(1);
+    expect(HashMap.size(state.tables)).toBe(1);
+  });
+
+  it("stops at maxRounds", () => {
+    const start = createOrThrow({ entrants: entrants(20), startingStack: Chips(10_000), table: TABLE });
+    const state = Effect.runSync(playTournament(passiveStrategy, { maxRounds: 3 })(start));
+    expect(state.rounds).toBe(3);
+    expect(isFinished(state)).toBe(false);
+  });
+});